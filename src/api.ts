@@ -10,15 +10,21 @@ import {
   CompileOptions,
   DetectionReport,
   CompiledDetector,
+  RunOptions,
   Config,
+  HistoryOptions,
+  TestHistory,
 } from './types.js';
-import { detectFlakiness } from './detector.js';
+import { detectFlakiness, defaultRuns } from './detector.js';
+import { readHistory, testHistory, DEFAULT_HISTORY_DIR } from './history.js';
 
 /**
  * Detect flaky tests with full detailed report
  *
  * This is the primary API for comprehensive flakiness analysis.
  * Returns detailed test run information, pass/fail counts, and flakiness statistics.
+ * When `signal` is aborted, in-flight runs are killed and the report covers the
+ * runs completed so far (marked `aborted: true`).
  *
  * @param options - Detection configuration
  * @returns Result containing detection report or error
@@ -54,7 +60,7 @@ export async function detect(options: DetectOptions): Promise<Result<DetectionRe
       };
     }
 
-    const runs = options.runs ?? 10;
+    const runs = options.runs ?? defaultRuns(options, 10);
     if (typeof runs !== 'number' || !Number.isFinite(runs) || runs < 1 || runs > 1000) {
       return {
         ok: false,
@@ -67,6 +73,20 @@ export async function detect(options: DetectOptions): Promise<Result<DetectionRe
       testCommand: options.test,
       runs,
       verbose: options.verbose ?? false,
+      threshold: options.threshold,
+      concurrency: options.concurrency,
+      timeoutMs: options.timeoutMs,
+      earlyStop: options.earlyStop,
+      confidence: options.confidence,
+      maxDurationMs: options.maxDurationMs,
+      junit: options.junit,
+      resultFiles: options.resultFiles,
+      parser: options.parser,
+      normalize: options.normalize,
+      historyDir: options.historyDir,
+      shard: options.shard,
+      quarantineFile: options.quarantineFile,
+      signal: options.signal,
       onProgress: options.onProgress,
     };
 
@@ -95,7 +115,10 @@ export async function detect(options: DetectOptions): Promise<Result<DetectionRe
  * Fast boolean check for flakiness (no detailed report)
  *
  * This is optimized for CI gates where you only need to know if flakiness exists.
- * Runs fewer iterations by default and returns only a boolean result.
+ * Runs fewer iterations by default, stops as soon as flakiness is proven
+ * (`earlyStop`, on by default) and returns only a boolean result.
+ * If aborted, flakiness already found is still reported; otherwise the
+ * result is an error since the check is inconclusive.
  *
  * @param options - Detection configuration (fewer runs recommended)
  * @returns Result containing boolean (true = flaky detected) or error
@@ -132,7 +155,7 @@ export async function isFlaky(options: IsFlakyOptions): Promise<Result<boolean>>
       };
     }
 
-    const runs = options.runs ?? 5; // Fewer runs for faster check
+    const runs = options.runs ?? defaultRuns(options, 5); // Fewer runs for faster check
     if (typeof runs !== 'number' || !Number.isFinite(runs) || runs < 2 || runs > 1000) {
       return {
         ok: false,
@@ -145,6 +168,15 @@ export async function isFlaky(options: IsFlakyOptions): Promise<Result<boolean>>
       testCommand: options.test,
       runs,
       verbose: false, // Never verbose for boolean check
+      threshold: options.threshold,
+      concurrency: options.concurrency,
+      timeoutMs: options.timeoutMs,
+      earlyStop: options.earlyStop ?? true, // Stop as soon as flakiness is proven
+      confidence: options.confidence,
+      maxDurationMs: options.maxDurationMs,
+      resultFiles: options.resultFiles,
+      parser: options.parser,
+      signal: options.signal,
       onProgress: options.onProgress,
     };
 
@@ -160,6 +192,14 @@ export async function isFlaky(options: IsFlakyOptions): Promise<Result<boolean>>
     // Return true if any flaky tests were found
     const hasFlakiness = report.flakyTests.length > 0;
 
+    // Flakiness found before an abort is conclusive; its absence is not
+    if (report.aborted && !hasFlakiness) {
+      return {
+        ok: false,
+        error: new Error('Detection aborted'),
+      };
+    }
+
     return {
       ok: true,
       value: hasFlakiness,
@@ -211,7 +251,7 @@ export function compileDetector(options: CompileOptions): CompiledDetector {
 
   // Create the compiled detector closure
   const detector: CompiledDetector = {
-    async run(runs: number): Promise<Result<DetectionReport>> {
+    async run(runs: number, runOptions: RunOptions = {}): Promise<Result<DetectionReport>> {
       if (typeof runs !== 'number' || !Number.isFinite(runs) || runs < 1 || runs > 1000) {
         return {
           ok: false,
@@ -224,6 +264,19 @@ export function compileDetector(options: CompileOptions): CompiledDetector {
           testCommand: options.test,
           runs,
           verbose: options.verbose ?? false,
+          threshold: options.threshold,
+          concurrency: options.concurrency,
+          timeoutMs: options.timeoutMs,
+          earlyStop: options.earlyStop,
+          confidence: options.confidence,
+          maxDurationMs: options.maxDurationMs,
+          resultFiles: options.resultFiles,
+          parser: options.parser,
+          normalize: options.normalize,
+          historyDir: options.historyDir,
+          shard: options.shard,
+          quarantineFile: options.quarantineFile,
+          signal: runOptions.signal,
           onProgress: options.onProgress,
         };
 
@@ -259,3 +312,59 @@ export function compileDetector(options: CompileOptions): CompiledDetector {
 
   return detector;
 }
+
+/**
+ * Query the flakiness history
+ *
+ * Reads the entries recorded by detections with `historyDir` set and
+ * aggregates them per test, showing whether a test has been flaky for a
+ * while or only just started.
+ *
+ * @param options - History directory and filters by test name, command and time
+ * @returns Result containing each test's flakiness over time (most often flaky first) or error
+ *
+ * @example
+ * ```typescript
+ * import { detect, history } from 'test-flakiness-detector';
+ *
+ * await detect({ test: 'npm test', runs: 20, historyDir: '.flaky-history' });
+ *
+ * const lastWeek = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+ * const result = await history({ dir: '.flaky-history', since: lastWeek });
+ *
+ * if (result.ok) {
+ *   result.value.forEach(test => {
+ *     console.log(`${test.testName}: flaky in ${test.flakyDetections}/${test.detections} detections`);
+ *   });
+ * }
+ * ```
+ */
+export async function history(options: HistoryOptions = {}): Promise<Result<TestHistory[]>> {
+  try {
+    const { dir = DEFAULT_HISTORY_DIR, ...filters } = options;
+
+    if (typeof dir !== 'string' || dir.trim() === '') {
+      return {
+        ok: false,
+        error: new Error('History directory must be a non-empty string'),
+      };
+    }
+
+    if (filters.since !== undefined && (!(filters.since instanceof Date) || isNaN(filters.since.getTime()))) {
+      return {
+        ok: false,
+        error: new Error('since must be a valid Date'),
+      };
+    }
+
+    return {
+      ok: true,
+      value: testHistory(await readHistory(dir), filters),
+    };
+  } catch (error: unknown) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error : new Error(String(error)),
+    };
+  }
+}
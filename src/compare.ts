@@ -0,0 +1,153 @@
+/**
+ * Comparison of two detection reports
+ *
+ * Finds tests that became flaky, were fixed, or whose failure rate changed
+ * significantly between two detections (e.g. main vs. a pull request).
+ * Failure rates are compared with Fisher's exact test rather than by raw
+ * delta, so 1/10 vs 3/10 failures is not mistaken for a regression.
+ */
+
+import { CompareOptions, DetectionReport, ReportComparison, TestChange, TestComparison, TestOutcomeSummary } from './types.js';
+import { tallyTests } from './detector.js';
+import { TestTally } from './early-stop.js';
+import { fisherExactTest } from './statistics.js';
+
+/**
+ * Significance level used when none is configured
+ */
+const DEFAULT_SIGNIFICANCE = 0.05;
+
+/**
+ * Key identifying a test across reports (hangs are tracked separately)
+ */
+function testKey(testName: string, category?: string): string {
+  return `${category ?? ''}\0${testName}`;
+}
+
+/**
+ * Outcome of every test in a report, keyed by testKey()
+ *
+ * Counted from the runs when the report has them, otherwise from the flaky
+ * test entries (e.g. a report saved without its runs).
+ */
+function summarizeTests(report: DetectionReport): Map<string, TestTally & TestOutcomeSummary> {
+  const flakyKeys = new Set(report.flakyTests.map((test) => testKey(test.testName, test.category)));
+  const tallies: TestTally[] =
+    report.runs.length > 0
+      ? tallyTests(report.runs)
+      : report.flakyTests.map(({ testName, passed, failed, category }) =>
+          category ? { testName, passed, failed, category } : { testName, passed, failed }
+        );
+
+  const summaries = new Map<string, TestTally & TestOutcomeSummary>();
+  for (const tally of tallies) {
+    const runs = tally.passed + tally.failed;
+    const key = testKey(tally.testName, tally.category);
+    summaries.set(key, {
+      ...tally,
+      failureRate: runs > 0 ? (tally.failed / runs) * 100 : 0,
+      flaky: flakyKeys.has(key),
+    });
+  }
+  return summaries;
+}
+
+/**
+ * Outcome fields of a test summary
+ */
+function outcome({ passed, failed, failureRate, flaky }: TestOutcomeSummary): TestOutcomeSummary {
+  return { passed, failed, failureRate, flaky };
+}
+
+/**
+ * Describe how a test changed, with the p-value of its failure rate change
+ */
+function toComparison(
+  change: TestChange,
+  afterTest: TestTally & TestOutcomeSummary,
+  beforeTest?: TestTally & TestOutcomeSummary
+): TestComparison {
+  const comparison: TestComparison = { testName: afterTest.testName, change, after: outcome(afterTest) };
+  if (afterTest.category) {
+    comparison.category = afterTest.category;
+  }
+  if (beforeTest) {
+    comparison.before = outcome(beforeTest);
+    comparison.pValue = fisherExactTest(
+      beforeTest.failed,
+      beforeTest.passed + beforeTest.failed,
+      afterTest.failed,
+      afterTest.passed + afterTest.failed
+    );
+  }
+  return comparison;
+}
+
+/**
+ * Compare two detection reports
+ *
+ * A test is new-flaky when the later report lists it as flaky and the
+ * earlier one did not (including tests the earlier report did not run), and
+ * fixed in the opposite case. Tests in both reports whose failure rate
+ * changed with a Fisher exact test p-value below `significance` are listed
+ * as `worse` or `better` under `changed` - including flaky tests that now
+ * fail every run, which are not fixed. Tests only in the earlier report
+ * are ignored.
+ *
+ * @param before - Earlier report (e.g. from the main branch)
+ * @param after - Later report (e.g. from a pull request)
+ * @param options - Significance level for failure rate changes (default: 0.05)
+ * @returns New flaky, fixed and significantly changed tests
+ * @throws Error if `significance` is not between 0 and 1
+ *
+ * @example
+ * ```typescript
+ * const comparison = compareReports(mainReport, prReport);
+ * if (comparison.newFlaky.length > 0) {
+ *   console.error('New flaky tests:', comparison.newFlaky.map(test => test.testName));
+ *   process.exit(1);
+ * }
+ * ```
+ */
+export function compareReports(before: DetectionReport, after: DetectionReport, options: CompareOptions = {}): ReportComparison {
+  const { significance = DEFAULT_SIGNIFICANCE } = options;
+  if (typeof significance !== 'number' || !Number.isFinite(significance) || significance <= 0 || significance >= 1) {
+    throw new Error('Significance must be between 0 and 1 (exclusive)');
+  }
+
+  const beforeTests = summarizeTests(before);
+  const comparison: ReportComparison = { newFlaky: [], fixed: [], changed: [], stillFlaky: 0, significance };
+
+  for (const [key, afterTest] of summarizeTests(after)) {
+    const beforeTest = beforeTests.get(key);
+
+    if (afterTest.flaky && !beforeTest?.flaky) {
+      comparison.newFlaky.push(toComparison('new-flaky', afterTest, beforeTest));
+    } else if (!beforeTest) {
+      continue;
+    } else if (beforeTest.flaky && !afterTest.flaky) {
+      // A flaky test that now fails significantly more often (e.g. every run) got worse, not fixed
+      const change = toComparison('fixed', afterTest, beforeTest);
+      if (
+        afterTest.failed > 0 &&
+        afterTest.failureRate > beforeTest.failureRate &&
+        change.pValue !== undefined &&
+        change.pValue < significance
+      ) {
+        comparison.changed.push({ ...change, change: 'worse' });
+      } else {
+        comparison.fixed.push(change);
+      }
+    } else {
+      if (beforeTest.flaky && afterTest.flaky) {
+        comparison.stillFlaky++;
+      }
+      const change = toComparison(afterTest.failureRate > beforeTest.failureRate ? 'worse' : 'better', afterTest, beforeTest);
+      if (change.pValue !== undefined && change.pValue < significance) {
+        comparison.changed.push(change);
+      }
+    }
+  }
+
+  return comparison;
+}
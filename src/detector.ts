@@ -2,45 +2,560 @@
  * Core flakiness detection logic
  */
 
-import { spawnSync } from 'child_process';
+import { spawn, ChildProcess } from 'child_process';
+import { constants, hostname } from 'os';
 import * as progress from '@tuulbelt/cli-progress-reporting';
-import { Config, TestRunResult, DetectionReport, TestFlakiness } from './types.js';
+import {
+  Config,
+  TestRunResult,
+  DetectionReport,
+  TestFlakiness,
+  ResultParser,
+  ParseContext,
+  TestCaseOutcome,
+  FailureKind,
+  QuarantineEntry,
+} from './types.js';
+import { resolveParser, detectParser } from './parsers/index.js';
+import { snapshotResultFiles } from './parsers/result-files.js';
+import { shouldStopEarly, TestTally } from './early-stop.js';
+import { achievedConfidence, wilsonInterval, thresholdPValue, runsToDetect, DEFAULT_CONFIDENCE_LEVEL } from './statistics.js';
+import { durationStats, durationCorrelation, durationSamples, slowFailures } from './timing.js';
+import { clusterFailures } from './signatures.js';
+import { createNormalizer, normalizeOutput, Normalizer } from './normalize.js';
+import { diffRuns } from './diff.js';
+import { recordHistory } from './history.js';
+import { readQuarantine, markQuarantined } from './quarantine.js';
+
+/**
+ * Maximum captured output per stream
+ */
+const MAX_BUFFER = 10 * 1024 * 1024; // 10MB buffer
+
+/**
+ * Maximum number of runs executed at the same time
+ */
+const MAX_CONCURRENCY = 100;
+
+/**
+ * Default run budget when running until a target confidence is reached
+ */
+export const DEFAULT_CONFIDENCE_RUNS = 100;
+
+/**
+ * Maximum number of runs (also the run budget when running for a duration)
+ */
+export const MAX_RUNS = 1000;
+
+/**
+ * Maximum per-run timeout (largest delay supported by setTimeout)
+ */
+const MAX_TIMEOUT_MS = 2147483647;
+
+/**
+ * Signals sent when a process crashes (bad memory access, abort, illegal instruction)
+ */
+const CRASH_SIGNALS = new Set(['SIGSEGV', 'SIGBUS', 'SIGABRT', 'SIGILL', 'SIGFPE', 'SIGSYS', 'SIGTRAP']);
+
+/**
+ * Classify why a run failed from its exit code and terminating signal
+ *
+ * Shells report a child killed by signal N as exit code 128 + N, so such
+ * exit codes are classified like the signal itself. SIGKILL is usually the
+ * kernel's out-of-memory killer; 126/127 mean the command could not be run.
+ *
+ * @param exitCode - Exit code of the test command (null if killed by a signal)
+ * @param signal - Signal that terminated the command, if any
+ * @returns How the run failed (for runs that did not exit with 0)
+ *
+ * @example
+ * ```typescript
+ * classifyFailure(1, null);          // 'test-failure'
+ * classifyFailure(null, 'SIGSEGV');  // 'crash'
+ * classifyFailure(137, null);        // 'oom-suspected' (128 + SIGKILL)
+ * classifyFailure(127, null);        // 'spawn-error' (command not found)
+ * ```
+ */
+export function classifyFailure(exitCode: number | null, signal: NodeJS.Signals | null): FailureKind {
+  const signalName =
+    signal ??
+    (exitCode !== null && exitCode > 128
+      ? Object.entries(constants.signals).find(([, number]) => number === exitCode - 128)?.[0]
+      : undefined);
+
+  if (signalName === 'SIGKILL') {
+    return 'oom-suspected';
+  }
+  if (signalName !== undefined && CRASH_SIGNALS.has(signalName)) {
+    return 'crash';
+  }
+  if (signalName !== undefined) {
+    return 'killed';
+  }
+  if (exitCode === 126 || exitCode === 127) {
+    return 'spawn-error';
+  }
+  return 'test-failure';
+}
+
+/**
+ * Kill a child process together with every process it started
+ *
+ * On POSIX the child must have been spawned detached (as a process group
+ * leader); on Windows `taskkill /T` walks the process tree.
+ */
+function killProcessTree(child: ChildProcess): void {
+  if (child.pid === undefined) {
+    return;
+  }
+
+  try {
+    if (process.platform === 'win32') {
+      spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { stdio: 'ignore' }).on('error', () => {
+        child.kill('SIGKILL');
+      });
+    } else {
+      process.kill(-child.pid, 'SIGKILL');
+    }
+  } catch {
+    // Process group already gone or not a group leader - kill the child itself
+    child.kill('SIGKILL');
+  }
+}
 
 /**
  * Run a test command once and capture the result
  *
+ * The command runs in an async child process whose output is streamed into
+ * memory, so the event loop (progress updates, callbacks, other work in the
+ * host process) stays responsive while tests run. Output beyond the buffer
+ * limit terminates the command. A run exceeding the timeout has its whole
+ * process tree killed and is marked `timedOut`; aborting the signal kills
+ * the process tree as well. Failed runs are classified with a `failureKind`.
+ *
  * @param command - The test command to execute
  * @param verbose - Whether to log verbose output
- * @returns The test run result
+ * @param timeoutMs - Maximum run duration in milliseconds (default: no limit)
+ * @param signal - Signal that kills the run when aborted
+ * @returns Promise resolving to the test run result
  */
-function runTestOnce(command: string, verbose: boolean): TestRunResult {
+function runTestOnce(command: string, verbose: boolean, timeoutMs?: number, signal?: AbortSignal): Promise<TestRunResult> {
   if (verbose) {
     console.error(`[RUN] Executing: ${command}`);
   }
 
-  try {
-    const result = spawnSync(command, {
-      encoding: 'utf-8',
-      shell: true,
-      maxBuffer: 10 * 1024 * 1024, // 10MB buffer
+  return new Promise((resolve) => {
+    let stdout = '';
+    let stderr = '';
+    let bufferExceeded = false;
+    let timedOut = false;
+
+    let child: ChildProcess & { stdout: NonNullable<ChildProcess['stdout']>; stderr: NonNullable<ChildProcess['stderr']> };
+    try {
+      child = spawn(command, {
+        shell: true,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        // Own process group so the whole tree can be killed on timeout or abort
+        detached: (timeoutMs !== undefined || signal !== undefined) && process.platform !== 'win32',
+      });
+    } catch (error: unknown) {
+      // Handle cases where spawn throws (e.g., null bytes in command)
+      const err = error as Error;
+      resolve({
+        success: false,
+        exitCode: 1,
+        stdout: '',
+        stderr: err.message || 'Command execution failed',
+        failureKind: 'spawn-error',
+      });
+      return;
+    }
+
+    const capture = (current: string, chunk: string): string => {
+      const combined = current + chunk;
+      if (combined.length > MAX_BUFFER) {
+        bufferExceeded = true;
+        killProcessTree(child);
+        return combined.slice(0, MAX_BUFFER);
+      }
+      return combined;
+    };
+
+    child.stdout.setEncoding('utf-8');
+    child.stderr.setEncoding('utf-8');
+    child.stdout.on('data', (chunk: string) => {
+      stdout = capture(stdout, chunk);
+    });
+    child.stderr.on('data', (chunk: string) => {
+      stderr = capture(stderr, chunk);
     });
 
-    return {
-      success: result.status === 0,
-      exitCode: result.status ?? 1,
-      stdout: result.stdout || '',
-      stderr: result.stderr || '',
+    const stop = (): void => {
+      killProcessTree(child);
+      // Grandchildren outside the process tree may still hold the pipes open
+      child.stdout.destroy();
+      child.stderr.destroy();
     };
-  } catch (error: unknown) {
-    // Handle cases where spawnSync throws (e.g., null bytes in command)
-    const err = error as Error;
-    return {
-      success: false,
-      exitCode: 1,
-      stdout: '',
-      stderr: err.message || 'Command execution failed',
+
+    const timer =
+      timeoutMs === undefined
+        ? undefined
+        : setTimeout(() => {
+            timedOut = true;
+            stop();
+          }, timeoutMs);
+
+    signal?.addEventListener('abort', stop, { once: true });
+    if (signal?.aborted) {
+      stop();
+    }
+
+    const cleanup = (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', stop);
     };
+
+    child.on('error', (error) => {
+      cleanup();
+      resolve({
+        success: false,
+        exitCode: 1,
+        stdout,
+        stderr: stderr || error.message || 'Command execution failed',
+        failureKind: 'spawn-error',
+      });
+    });
+
+    child.on('close', (code, exitSignal) => {
+      cleanup();
+      const killed = bufferExceeded || timedOut;
+      const result: TestRunResult = {
+        success: code === 0 && !killed,
+        exitCode: killed ? 1 : (code ?? 1),
+        stdout,
+        stderr,
+      };
+      if (exitSignal) {
+        result.signal = exitSignal;
+      }
+      if (timedOut) {
+        result.timedOut = true;
+      }
+      if (!result.success) {
+        result.failureKind = timedOut ? 'timeout' : bufferExceeded ? 'killed' : classifyFailure(code, exitSignal);
+      }
+      resolve(result);
+    });
+  });
+}
+
+/**
+ * Run a result parser and attach recognized test outcomes to the run
+ *
+ * Parser errors are treated as "no tests recognized".
+ */
+function parseRun(parser: ResultParser, run: TestRunResult, context: ParseContext): void {
+  let tests: TestCaseOutcome[] = [];
+  try {
+    const outcomes = parser.parse(run, context);
+    tests = Array.isArray(outcomes) ? outcomes : [];
+  } catch {
+    // Ignore errors from parser - don't let them crash the detector
+  }
+
+  if (tests.length > 0) {
+    run.tests = tests;
+  } else {
+    delete run.tests;
+  }
+}
+
+/**
+ * Build a flakiness entry (with statistics) if the pass/fail counts exceed the threshold
+ */
+function toFlakiness(
+  testName: string,
+  passed: number,
+  failed: number,
+  threshold: number,
+  confidenceLevel: number
+): TestFlakiness | undefined {
+  if (passed === 0 || failed === 0) {
+    return undefined;
   }
+
+  const totalRuns = passed + failed;
+  const failureRate = (failed / totalRuns) * 100;
+
+  // Test is flaky if failure rate exceeds threshold (default 0 = any failure)
+  if (failureRate <= threshold) {
+    return undefined;
+  }
+
+  return {
+    testName,
+    passed,
+    failed,
+    totalRuns,
+    failureRate,
+    confidenceInterval: wilsonInterval(passed, failed, confidenceLevel),
+    pValue: thresholdPValue(passed, failed, threshold),
+    runsToDetect: runsToDetect(failureRate, confidenceLevel),
+  };
+}
+
+/**
+ * Name of the entry tracking the test command as a whole
+ */
+const SUITE_TEST_NAME = 'Test Suite';
+
+/**
+ * Whether a run failed without a parsed test failure to explain it
+ * (e.g. the command crashed or did not compile before reporting any test)
+ */
+function isSuiteFailure(run: TestRunResult): boolean {
+  return !run.success && run.timedOut !== true && !(run.tests ?? []).some((test) => test.status === 'failed');
+}
+
+/**
+ * Pass/fail counts kept up to date one completed run at a time
+ */
+interface RunningTallies {
+  /** Per-test counts, in the order tests were first seen */
+  tests: Map<string, TestTally>;
+  /** Suite-level counts: runs that failed without a failing test vs. other completed runs */
+  suite: TestTally;
+  /** Completed vs. timed-out runs */
+  hang: TestTally;
+}
+
+/**
+ * Create empty running tallies
+ */
+function createTallies(): RunningTallies {
+  return {
+    tests: new Map(),
+    suite: { testName: SUITE_TEST_NAME, passed: 0, failed: 0 },
+    hang: { testName: SUITE_TEST_NAME, passed: 0, failed: 0, category: 'hang' },
+  };
+}
+
+/**
+ * Add a completed run to running tallies
+ */
+function addRunToTallies(tallies: RunningTallies, run: TestRunResult): void {
+  if (run.timedOut === true) {
+    tallies.hang.failed++;
+  } else {
+    tallies.hang.passed++;
+    if (isSuiteFailure(run)) {
+      tallies.suite.failed++;
+    } else {
+      tallies.suite.passed++;
+    }
+  }
+
+  const failedInRun = new Map<string, boolean>();
+  for (const test of run.tests ?? []) {
+    if (test.status === 'skipped') {
+      continue;
+    }
+    failedInRun.set(test.name, failedInRun.get(test.name) === true || test.status === 'failed');
+  }
+
+  for (const [name, failed] of failedInRun) {
+    let entry = tallies.tests.get(name);
+    if (!entry) {
+      entry = { testName: name, passed: 0, failed: 0 };
+      tallies.tests.set(name, entry);
+    }
+    if (failed) {
+      entry.failed++;
+    } else {
+      entry.passed++;
+    }
+  }
+}
+
+/**
+ * Current tallies: tests (or the suite entry without test outcomes), the hang entry last
+ */
+function listTallies(tallies: RunningTallies): TestTally[] {
+  const { tests, suite, hang } = tallies;
+  const result: TestTally[] = [...tests.values()];
+  if (tests.size === 0 ? suite.passed + suite.failed > 0 : suite.failed > 0) {
+    result.push({ ...suite });
+  }
+  if (hang.failed > 0) {
+    result.push({ ...hang });
+  }
+  return result;
+}
+
+/**
+ * Count passes and failures for every test across completed test runs
+ *
+ * When runs carry individual test outcomes, pass/fail counts are aggregated
+ * per test across runs (skipped tests are not counted, and a test reported
+ * more than once in a run counts once, failing if any report failed).
+ * Otherwise the whole command is tracked as a single "Test Suite" entry.
+ * Runs that fail without a failing test (e.g. a crash before any test
+ * output) are counted as failures of a "Test Suite" entry in either case,
+ * so they are never silently dropped.
+ *
+ * Timed-out runs are a separate category: they are excluded from the suite
+ * entry's failures and counted in a "Test Suite" entry with category `hang`
+ * (`failed` counting the timed-out runs). Tests parsed from a timed-out
+ * run's partial output still count.
+ *
+ * @param runs - Completed test run results
+ * @returns Tallies in the order tests were first seen, the suite entry after them and the hang entry last
+ */
+export function tallyTests(runs: TestRunResult[]): TestTally[] {
+  const tallies = createTallies();
+  for (const run of runs) {
+    addRunToTallies(tallies, run);
+  }
+  return listTallies(tallies);
+}
+
+/**
+ * Calculate flaky tests from completed test runs
+ *
+ * A test is flaky when it both passed and failed, with a failure rate above
+ * the threshold. See tallyTests() for how runs are counted per test; when
+ * some runs hang while others complete, a "Test Suite" entry with category
+ * `hang` is reported. Each entry carries a Wilson confidence interval, a
+ * p-value against the threshold and the runs needed to detect its failure rate,
+ * how strongly its failures correlate with long durations (when durations
+ * are known), its failed runs grouped by failure signature and a diff of a
+ * passing run's output against a failing run's.
+ *
+ * @param runs - Completed test run results
+ * @param threshold - Flakiness threshold percentage (0-100)
+ * @param confidenceLevel - Confidence level percentage for intervals (default: 95)
+ * @param normalize - Output normalizer used for failure signatures and diffs (default: built-in rules)
+ * @returns Flaky tests in the order they were first seen
+ */
+export function calculateFlakyTests(
+  runs: TestRunResult[],
+  threshold: number,
+  confidenceLevel = DEFAULT_CONFIDENCE_LEVEL,
+  normalize: Normalizer = normalizeOutput
+): TestFlakiness[] {
+  const flakyTests: TestFlakiness[] = [];
+  for (const { testName, passed, failed, category } of tallyTests(runs)) {
+    const flakiness = toFlakiness(testName, passed, failed, threshold, confidenceLevel);
+    if (!flakiness) {
+      continue;
+    }
+
+    if (category) {
+      flakyTests.push({ ...flakiness, category, failureClusters: clusterFailures(runs, (run) => run.timedOut === true, normalize) });
+      continue;
+    }
+
+    const samples = durationSamples(runs, testName);
+    const correlation = durationCorrelation(samples);
+    if (correlation !== undefined) {
+      flakiness.durationCorrelation = correlation;
+      if (slowFailures(samples)) {
+        flakiness.slowFailures = true;
+      }
+    }
+
+    // The suite entry stands for runs that failed without a failing test
+    const isSuite = testName === SUITE_TEST_NAME;
+    const reports = (run: TestRunResult): TestCaseOutcome[] =>
+      (run.tests ?? []).filter((test) => test.name === testName && test.status !== 'skipped');
+    const failedIn = (run: TestRunResult): boolean =>
+      isSuite ? isSuiteFailure(run) : reports(run).some((test) => test.status === 'failed');
+    const passedIn = (run: TestRunResult): boolean => (isSuite ? run.success : reports(run).length > 0 && !failedIn(run));
+
+    const failureClusters = clusterFailures(runs, failedIn, normalize, isSuite ? undefined : testName);
+    flakiness.failureClusters = failureClusters;
+
+    // Diff the first passing run against the first run of the most common failure
+    const numberedRuns = runs.map((run, index) => ({ ...run, runNumber: run.runNumber ?? index + 1 }));
+    const passingRun = numberedRuns.find(passedIn);
+    const failingRun = numberedRuns.find((run) => run.runNumber === failureClusters[0]?.runNumbers[0]);
+    const diff = passingRun && failingRun ? diffRuns(passingRun, failingRun, normalize) : undefined;
+    if (diff) {
+      flakiness.diff = diff;
+    }
+
+    flakyTests.push(flakiness);
+  }
+
+  return flakyTests;
+}
+
+/**
+ * Assemble a report from completed runs
+ *
+ * Counts passed and failed runs, calculates flaky tests (see
+ * calculateFlakyTests()) and summarizes the runs: exit codes, failure
+ * clusters and durations. Shared by detection and report merging so both
+ * produce the same statistics.
+ *
+ * @param runs - Completed test run results, in run order
+ * @param threshold - Flakiness threshold percentage (0-100)
+ * @param confidenceLevel - Confidence level percentage for intervals (default: 95)
+ * @param normalize - Normalizer applied before clustering and diffing (default: built-in rules)
+ * @returns Report of the runs
+ */
+export function buildReport(
+  runs: TestRunResult[],
+  threshold: number,
+  confidenceLevel = DEFAULT_CONFIDENCE_LEVEL,
+  normalize: Normalizer = normalizeOutput
+): DetectionReport {
+  const passedRuns = runs.filter((run) => run.success).length;
+  const report: DetectionReport = {
+    success: true,
+    totalRuns: runs.length,
+    passedRuns,
+    failedRuns: runs.length - passedRuns,
+    flakyTests: calculateFlakyTests(runs, threshold, confidenceLevel, normalize),
+    runs,
+  };
+
+  const exitCodes: Record<string, number> = {};
+  for (const run of runs) {
+    const key = run.signal ?? String(run.exitCode);
+    exitCodes[key] = (exitCodes[key] ?? 0) + 1;
+  }
+  if (runs.length > 0) {
+    report.exitCodes = exitCodes;
+  }
+
+  const failureClusters = clusterFailures(runs, undefined, normalize);
+  if (failureClusters.length > 0) {
+    report.failureClusters = failureClusters;
+  }
+
+  const runDurations = durationStats(runs.flatMap((run) => (run.durationMs !== undefined ? [run.durationMs] : [])));
+  if (runDurations) {
+    report.durationStats = runDurations;
+  }
+
+  return report;
+}
+
+/**
+ * Default run count when `runs` is not set: the maximum when running for a
+ * duration, the confidence budget with a target confidence, otherwise the
+ * given fallback
+ *
+ * @param options - Options holding the optional `confidence` and `maxDurationMs`
+ * @param fallback - Run count without a duration or confidence
+ * @returns Number of runs
+ */
+export function defaultRuns(options: { confidence?: number; maxDurationMs?: number }, fallback: number): number {
+  if (options.maxDurationMs !== undefined) {
+    return MAX_RUNS;
+  }
+  return options.confidence !== undefined ? DEFAULT_CONFIDENCE_RUNS : fallback;
 }
 
 /**
@@ -66,7 +581,28 @@ function runTestOnce(command: string, verbose: boolean): TestRunResult {
  * ```
  */
 export async function detectFlakiness(config: Config): Promise<DetectionReport> {
-  const { testCommand, runs = 10, verbose = false, threshold = 0, onProgress } = config;
+  const {
+    testCommand,
+    runs: totalRuns = defaultRuns(config, 10),
+    verbose = false,
+    threshold = 0,
+    concurrency = 1,
+    timeoutMs,
+    earlyStop = false,
+    confidence,
+    maxDurationMs,
+    junit,
+    historyDir,
+    shard,
+    quarantineFile,
+    signal,
+    onProgress,
+  } = config;
+  const resultFiles = config.resultFiles ?? junit;
+
+  // Explicit parser (or junit with result files); otherwise detected from the first recognizable run
+  const requestedParser = config.parser ?? (junit ? 'junit' : undefined);
+  let parser = requestedParser !== undefined ? resolveParser(requestedParser) : undefined;
 
   if (!testCommand || typeof testCommand !== 'string') {
     return {
@@ -80,7 +616,7 @@ export async function detectFlakiness(config: Config): Promise<DetectionReport>
     };
   }
 
-  if (typeof runs !== 'number' || !Number.isFinite(runs) || runs < 1 || runs > 1000) {
+  if (typeof totalRuns !== 'number' || !Number.isFinite(totalRuns) || totalRuns < 1 || totalRuns > MAX_RUNS) {
     return {
       success: false,
       totalRuns: 0,
@@ -104,10 +640,226 @@ export async function detectFlakiness(config: Config): Promise<DetectionReport>
     };
   }
 
+  if (typeof concurrency !== 'number' || !Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+    return {
+      success: false,
+      totalRuns: 0,
+      passedRuns: 0,
+      failedRuns: 0,
+      flakyTests: [],
+      runs: [],
+      error: `Concurrency must be an integer between 1 and ${MAX_CONCURRENCY}`,
+    };
+  }
+
+  if (
+    timeoutMs !== undefined &&
+    (typeof timeoutMs !== 'number' || !Number.isFinite(timeoutMs) || timeoutMs < 1 || timeoutMs > MAX_TIMEOUT_MS)
+  ) {
+    return {
+      success: false,
+      totalRuns: 0,
+      passedRuns: 0,
+      failedRuns: 0,
+      flakyTests: [],
+      runs: [],
+      error: `Timeout must be between 1 and ${MAX_TIMEOUT_MS} milliseconds`,
+    };
+  }
+
+  if (earlyStop !== true && earlyStop !== false && earlyStop !== 'verdict' && earlyStop !== 'sprt') {
+    return {
+      success: false,
+      totalRuns: 0,
+      passedRuns: 0,
+      failedRuns: 0,
+      flakyTests: [],
+      runs: [],
+      error: "Early stop must be true, false, 'verdict' or 'sprt'",
+    };
+  }
+  const earlyStopMode = earlyStop === true ? 'verdict' : earlyStop || undefined;
+
+  if (confidence !== undefined && (typeof confidence !== 'number' || !Number.isFinite(confidence) || confidence < 50 || confidence >= 100)) {
+    return {
+      success: false,
+      totalRuns: 0,
+      passedRuns: 0,
+      failedRuns: 0,
+      flakyTests: [],
+      runs: [],
+      error: 'Confidence must be a percentage from 50 up to (not including) 100',
+    };
+  }
+
+  if (maxDurationMs !== undefined && (typeof maxDurationMs !== 'number' || !Number.isFinite(maxDurationMs) || maxDurationMs <= 0)) {
+    return {
+      success: false,
+      totalRuns: 0,
+      passedRuns: 0,
+      failedRuns: 0,
+      flakyTests: [],
+      runs: [],
+      error: 'Max duration must be a positive number of milliseconds',
+    };
+  }
+
+  let normalize: Normalizer;
+  try {
+    normalize = createNormalizer(config.normalize);
+  } catch (error) {
+    return {
+      success: false,
+      totalRuns: 0,
+      passedRuns: 0,
+      failedRuns: 0,
+      flakyTests: [],
+      runs: [],
+      error: (error as Error).message,
+    };
+  }
+
+  if (historyDir !== undefined && (typeof historyDir !== 'string' || historyDir.trim() === '')) {
+    return {
+      success: false,
+      totalRuns: 0,
+      passedRuns: 0,
+      failedRuns: 0,
+      flakyTests: [],
+      runs: [],
+      error: 'History directory must be a non-empty string',
+    };
+  }
+
+  // Read the quarantine up front so an invalid file fails before any run
+  let quarantine: QuarantineEntry[] = [];
+  if (quarantineFile !== undefined) {
+    let quarantineError: string | undefined;
+    if (typeof quarantineFile !== 'string' || quarantineFile.trim() === '') {
+      quarantineError = 'Quarantine file must be a non-empty string';
+    } else {
+      try {
+        quarantine = await readQuarantine(quarantineFile);
+      } catch (error) {
+        quarantineError = `Failed to read quarantine: ${(error as Error).message}`;
+      }
+    }
+    if (quarantineError) {
+      return {
+        success: false,
+        totalRuns: 0,
+        passedRuns: 0,
+        failedRuns: 0,
+        flakyTests: [],
+        runs: [],
+        error: quarantineError,
+      };
+    }
+  }
+
+  if (junit !== undefined && (typeof junit !== 'string' || junit.trim() === '')) {
+    return {
+      success: false,
+      totalRuns: 0,
+      passedRuns: 0,
+      failedRuns: 0,
+      flakyTests: [],
+      runs: [],
+      error: 'JUnit pattern must be a non-empty string',
+    };
+  }
+
+  if (config.resultFiles !== undefined && (typeof config.resultFiles !== 'string' || config.resultFiles.trim() === '')) {
+    return {
+      success: false,
+      totalRuns: 0,
+      passedRuns: 0,
+      failedRuns: 0,
+      flakyTests: [],
+      runs: [],
+      error: 'Result files pattern must be a non-empty string',
+    };
+  }
+
+  if (config.resultFiles !== undefined && requestedParser === undefined) {
+    return {
+      success: false,
+      totalRuns: 0,
+      passedRuns: 0,
+      failedRuns: 0,
+      flakyTests: [],
+      runs: [],
+      error: 'Result files require a parser (e.g. parser: "jest-json")',
+    };
+  }
+
+  // Concurrent runs' result files match the same pattern and cannot be told apart
+  if (resultFiles !== undefined && concurrency > 1) {
+    return {
+      success: false,
+      totalRuns: 0,
+      passedRuns: 0,
+      failedRuns: 0,
+      flakyTests: [],
+      runs: [],
+      error: 'Result files (junit, resultFiles) cannot be read when running with concurrency above 1',
+    };
+  }
+
+  if (requestedParser !== undefined && !parser) {
+    return {
+      success: false,
+      totalRuns: 0,
+      passedRuns: 0,
+      failedRuns: 0,
+      flakyTests: [],
+      runs: [],
+      error: `Unknown parser: ${typeof config.parser === 'string' ? config.parser : 'invalid parser object'}`,
+    };
+  }
+
+  if (
+    shard !== undefined &&
+    (typeof shard !== 'object' ||
+      shard === null ||
+      !Number.isInteger(shard.count) ||
+      !Number.isInteger(shard.index) ||
+      shard.count < 1 ||
+      shard.index < 1 ||
+      shard.index > shard.count)
+  ) {
+    return {
+      success: false,
+      totalRuns: 0,
+      passedRuns: 0,
+      failedRuns: 0,
+      flakyTests: [],
+      runs: [],
+      error: 'Shard must be i/n with 1 <= i <= n (e.g. 3/8)',
+    };
+  }
+
+  // A shard makes its share of the runs, numbered as a contiguous block of all
+  // runs so run numbers stay unique across shards
+  const firstRun = shard ? Math.floor((totalRuns * (shard.index - 1)) / shard.count) : 0;
+  const runs = shard ? Math.floor((totalRuns * shard.index) / shard.count) - firstRun : totalRuns;
+
+  if (runs < 1) {
+    return {
+      success: false,
+      totalRuns: 0,
+      passedRuns: 0,
+      failedRuns: 0,
+      flakyTests: [],
+      runs: [],
+      error: `Shard ${shard!.index}/${shard!.count} has no runs (${totalRuns} runs split ${shard!.count} ways)`,
+    };
+  }
+
   // Emit start event
   if (onProgress) {
     try {
-      onProgress({ type: 'start', totalRuns: runs });
+      onProgress(shard ? { type: 'start', totalRuns, shardRuns: runs } : { type: 'start', totalRuns });
     } catch {
       // Ignore errors from callback - don't let them crash the detector
     }
@@ -125,30 +877,104 @@ export async function detectFlakiness(config: Config): Promise<DetectionReport>
   }
 
   if (verbose) {
-    console.error(`[INFO] Running test command ${runs} times: ${testCommand}`);
+    const parallel = concurrency > 1 ? ` (${concurrency} at a time)` : '';
+    const budget = maxDurationMs !== undefined ? `up to ${runs} times for ${maxDurationMs}ms` : `${runs} times`;
+    const share = shard ? ` as shard ${shard.index}/${shard.count} (runs ${firstRun + 1}-${firstRun + runs})` : '';
+    console.error(`[INFO] Running test command ${budget}${parallel}${share}: ${testCommand}`);
   }
 
+  // Indexed by run (runs may complete out of order when running in parallel)
   const results: TestRunResult[] = [];
+  const parseContexts: ParseContext[] = [];
+  // Per-test counts of the completed runs, updated as each run completes
+  let tallies = createTallies();
   let passedRuns = 0;
   let failedRuns = 0;
+  let nextRun = 0;
+  let stoppedEarly = false;
+  let completedRunTimeMs = 0;
+  const detectionStartedAt = Date.now();
+
+  // Only start a run while it is expected to finish within the duration budget
+  // (judged by the average duration of the runs completed so far)
+  const withinDuration = (): boolean => {
+    if (maxDurationMs === undefined) {
+      return true;
+    }
+    const completed = passedRuns + failedRuns;
+    const expectedRunMs = completed > 0 ? completedRunTimeMs / completed : 0;
+    return Date.now() - detectionStartedAt + expectedRunMs <= maxDurationMs;
+  };
+
+  const executeRun = async (index: number): Promise<void> => {
+    const runNumber = firstRun + index + 1;
 
-  // Run the test command multiple times
-  for (let i = 0; i < runs; i++) {
     if (verbose) {
-      console.error(`[INFO] Run ${i + 1}/${runs}`);
+      console.error(`[INFO] Run ${runNumber}/${totalRuns}`);
     }
 
     // Emit run-start event
     if (onProgress) {
       try {
-        onProgress({ type: 'run-start', runNumber: i + 1, totalRuns: runs });
+        onProgress({ type: 'run-start', runNumber, totalRuns });
       } catch {
         // Ignore errors from callback - don't let them crash the detector
       }
     }
 
-    const result = runTestOnce(testCommand, verbose);
-    results.push(result);
+    // Remember existing result files so files this run leaves untouched are not attributed to it
+    const resultFilesBefore = resultFiles ? snapshotResultFiles(resultFiles) : undefined;
+    const startedAt = Date.now();
+    const outcome = await runTestOnce(testCommand, verbose, timeoutMs, signal);
+
+    // Runs interrupted by an abort are incomplete - leave them out of the report
+    if (signal?.aborted) {
+      return;
+    }
+
+    const endedAt = Date.now();
+    const durationMs = endedAt - startedAt;
+    const result: TestRunResult = { runNumber, ...outcome, startedAt, endedAt, durationMs };
+    if (shard) {
+      result.shard = shard.index;
+    }
+    completedRunTimeMs += durationMs;
+
+    if (result.timedOut && verbose) {
+      console.error(`[WARN] Run ${runNumber} timed out after ${timeoutMs}ms (process tree killed)`);
+    }
+
+    const parseContext: ParseContext = { runNumber, startedAt, resultFiles };
+    if (resultFilesBefore) {
+      parseContext.resultFilesBefore = resultFilesBefore;
+    }
+    results[index] = result;
+    parseContexts[index] = parseContext;
+
+    // Detect the test framework from the first run whose output is recognized
+    if (!parser) {
+      parser = detectParser(result);
+      if (parser) {
+        if (verbose) {
+          console.error(`[INFO] Detected test output format: ${parser.name}`);
+        }
+        // Runs completed so far produced no recognizable output, but parse them for consistency
+        const detected = parser;
+        tallies = createTallies();
+        results.forEach((previous, j) => {
+          if (j !== index) {
+            parseRun(detected, previous, parseContexts[j]!);
+            addRunToTallies(tallies, previous);
+          }
+        });
+      }
+    }
+
+    // Track individual tests recognized by the result parser
+    if (parser) {
+      parseRun(parser, result, parseContext);
+    }
+    addRunToTallies(tallies, result);
 
     if (result.success) {
       passedRuns++;
@@ -156,13 +982,30 @@ export async function detectFlakiness(config: Config): Promise<DetectionReport>
       failedRuns++;
     }
 
+    // Stop starting new runs once the verdict is settled (in-flight runs still complete)
+    const remainingRuns = runs - passedRuns - failedRuns;
+    if ((earlyStopMode || confidence !== undefined) && !stoppedEarly && remainingRuns > 0) {
+      const current = listTallies(tallies);
+      if (earlyStopMode && shouldStopEarly(earlyStopMode, current, threshold, remainingRuns)) {
+        stoppedEarly = true;
+        if (verbose) {
+          console.error(`[INFO] Stopping early after ${passedRuns + failedRuns}/${runs} runs (${earlyStopMode})`);
+        }
+      } else if (confidence !== undefined && achievedConfidence(current, threshold) >= confidence) {
+        stoppedEarly = true;
+        if (verbose) {
+          console.error(`[INFO] Reached ${confidence}% confidence after ${passedRuns + failedRuns}/${runs} runs`);
+        }
+      }
+    }
+
     // Emit run-complete event
     if (onProgress) {
       try {
         onProgress({
           type: 'run-complete',
-          runNumber: i + 1,
-          totalRuns: runs,
+          runNumber,
+          totalRuns,
           success: result.success,
           exitCode: result.exitCode,
         });
@@ -174,28 +1017,33 @@ export async function detectFlakiness(config: Config): Promise<DetectionReport>
     // Update progress after each run
     if (runs >= 5) {
       const status = result.success ? 'passed' : 'failed';
-      progress.increment(1, `Run ${i + 1}/${runs} ${status} (${passedRuns} passed, ${failedRuns} failed)`, { id: progressId });
+      progress.increment(1, `Run ${runNumber}/${totalRuns} ${status} (${passedRuns} passed, ${failedRuns} failed)`, { id: progressId });
     }
-  }
-
-  // Calculate flakiness: if some runs passed and some failed, check against threshold
-  const flakyTests: TestFlakiness[] = [];
+  };
 
-  if (passedRuns > 0 && failedRuns > 0) {
-    const failureRate = (failedRuns / runs) * 100;
-
-    // Test is flaky if failure rate exceeds threshold (default 0 = any failure)
-    if (failureRate > threshold) {
-      flakyTests.push({
-        testName: 'Test Suite',
-        passed: passedRuns,
-        failed: failedRuns,
-        totalRuns: runs,
-        failureRate,
-      });
+  // Each worker starts the next pending run until all runs have been started,
+  // detection stops early, the duration budget runs out or detection is aborted
+  const worker = async (): Promise<void> => {
+    while (nextRun < runs && !stoppedEarly && withinDuration() && !signal?.aborted) {
+      await executeRun(nextRun++);
     }
+  };
+
+  // Run the test command multiple times (sequentially unless concurrency > 1)
+  await Promise.all(Array.from({ length: Math.min(concurrency, runs) }, () => worker()));
+
+  // Completed runs in run order (an abort can leave gaps)
+  const completedRuns = results.filter((run) => run !== undefined);
+  const aborted = signal?.aborted === true;
+
+  if (aborted && verbose) {
+    console.error(`[INFO] Detection aborted after ${completedRuns.length}/${runs} runs`);
   }
 
+  // Calculate flakiness: tests with both passes and failures, checked against threshold
+  const report = buildReport(completedRuns, threshold, confidence, normalize);
+  const { flakyTests } = report;
+
   // Mark progress as complete
   if (runs >= 5) {
     const summary = flakyTests.length > 0
@@ -205,7 +1053,7 @@ export async function detectFlakiness(config: Config): Promise<DetectionReport>
   }
 
   if (verbose) {
-    console.error(`[INFO] Completed ${runs} runs: ${passedRuns} passed, ${failedRuns} failed`);
+    console.error(`[INFO] Completed ${completedRuns.length} runs: ${passedRuns} passed, ${failedRuns} failed`);
     if (flakyTests.length > 0) {
       console.error(`[WARN] Detected flaky tests!`);
     }
@@ -216,14 +1064,49 @@ export async function detectFlakiness(config: Config): Promise<DetectionReport>
     progress.clear({ id: progressId });
   }
 
-  const report: DetectionReport = {
-    success: true,
-    totalRuns: runs,
-    passedRuns,
-    failedRuns,
-    flakyTests,
-    runs: results,
-  };
+  if (aborted) {
+    report.aborted = true;
+  }
+
+  if (stoppedEarly) {
+    report.stoppedEarly = true;
+  }
+
+  if (confidence !== undefined) {
+    report.targetConfidence = confidence;
+    report.confidence = achievedConfidence(listTallies(tallies), threshold);
+  }
+
+  if (maxDurationMs !== undefined) {
+    report.durationBudgetMs = maxDurationMs;
+    report.durationMs = Date.now() - detectionStartedAt;
+  }
+
+  if (timeoutMs !== undefined) {
+    report.timedOutRuns = completedRuns.filter((run) => run.timedOut === true).length;
+  }
+
+  if (parser) {
+    report.framework = parser.name;
+  }
+
+  if (shard) {
+    report.shard = { index: shard.index, count: shard.count };
+  }
+
+  report.hostname = hostname();
+
+  if (quarantineFile !== undefined) {
+    markQuarantined(report, quarantine);
+  }
+
+  if (historyDir !== undefined && completedRuns.length > 0) {
+    try {
+      await recordHistory(report, testCommand, historyDir);
+    } catch (error) {
+      report.historyError = (error as Error).message;
+    }
+  }
 
   // Emit complete event
   if (onProgress) {
@@ -0,0 +1,223 @@
+/**
+ * Pass-vs-fail output diff
+ *
+ * Compares the normalized output of a passing run with a failing run of the
+ * same test, line by line, so the region where they diverge points at the
+ * root cause without saving and diffing outputs by hand.
+ */
+
+import { DiffHunk, OutputDiff, TestRunResult } from './types.js';
+import { normalizeOutput, Normalizer } from './normalize.js';
+
+/**
+ * Unchanged lines kept around each changed region
+ */
+const CONTEXT_LINES = 2;
+
+/**
+ * Maximum diff lines kept in a report (across all hunks)
+ */
+const MAX_DIFF_LINES = 40;
+
+/**
+ * Largest changed region (lines before × lines after) diffed line by line;
+ * bigger regions are reported as replaced as a whole
+ */
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Single line of a diff: in both outputs, only the passing run's, or only the failing run's
+ */
+interface DiffOp {
+  type: ' ' | '-' | '+';
+  text: string;
+  /** 0-based line index in the passing output (next line for '+') */
+  passingIndex: number;
+  /** 0-based line index in the failing output (next line for '-') */
+  failingIndex: number;
+}
+
+/**
+ * Diff the changed middle region of two outputs (longest common subsequence)
+ */
+function diffRegion(passing: string[], failing: string[], passingOffset: number, failingOffset: number): DiffOp[] {
+  const ops: DiffOp[] = [];
+  const n = passing.length;
+  const m = failing.length;
+
+  if (n * m > MAX_DIFF_CELLS) {
+    passing.forEach((text, i) => ops.push({ type: '-', text, passingIndex: passingOffset + i, failingIndex: failingOffset }));
+    failing.forEach((text, j) => ops.push({ type: '+', text, passingIndex: passingOffset + n, failingIndex: failingOffset + j }));
+    return ops;
+  }
+
+  // lcs[i * (m + 1) + j] = length of the longest common subsequence of passing[i..] and failing[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = passing[i] === failing[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1]! + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j]!, lcs[i * (m + 1) + j + 1]!);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    const passingIndex = passingOffset + i;
+    const failingIndex = failingOffset + j;
+    if (i < n && j < m && passing[i] === failing[j]) {
+      ops.push({ type: ' ', text: passing[i]!, passingIndex, failingIndex });
+      i++;
+      j++;
+    } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j]! >= lcs[i * (m + 1) + j + 1]!)) {
+      ops.push({ type: '-', text: passing[i]!, passingIndex, failingIndex });
+      i++;
+    } else {
+      ops.push({ type: '+', text: failing[j]!, passingIndex, failingIndex });
+      j++;
+    }
+  }
+
+  return ops;
+}
+
+/**
+ * Diff two outputs line by line
+ *
+ * @param passingOutput - Output of the passing run
+ * @param failingOutput - Output of the failing run
+ * @param stream - Stream the outputs come from
+ * @returns Changed regions with surrounding context, empty if the outputs are equal
+ *
+ * @example
+ * ```typescript
+ * diffOutputs('ok 1\nok 2\n', 'ok 1\nnot ok 2\n', 'stdout');
+ * // [{ stream: 'stdout', passingLine: 1, failingLine: 1, lines: [' ok 1', '-ok 2', '+not ok 2', ' '] }]
+ * ```
+ */
+export function diffOutputs(passingOutput: string, failingOutput: string, stream: DiffHunk['stream']): DiffHunk[] {
+  const passing = passingOutput.split('\n');
+  const failing = failingOutput.split('\n');
+
+  // Skip the common prefix and suffix; only the middle region needs diffing
+  let prefix = 0;
+  while (prefix < passing.length && prefix < failing.length && passing[prefix] === failing[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < passing.length - prefix &&
+    suffix < failing.length - prefix &&
+    passing[passing.length - 1 - suffix] === failing[failing.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  if (prefix === passing.length && prefix === failing.length) {
+    return [];
+  }
+
+  const contextBefore = Math.min(prefix, CONTEXT_LINES);
+  const contextAfter = Math.min(suffix, CONTEXT_LINES);
+  const passingEnd = passing.length - suffix;
+  const failingEnd = failing.length - suffix;
+
+  const ops: DiffOp[] = [];
+  for (let k = prefix - contextBefore; k < prefix; k++) {
+    ops.push({ type: ' ', text: passing[k]!, passingIndex: k, failingIndex: k });
+  }
+  ops.push(...diffRegion(passing.slice(prefix, passingEnd), failing.slice(prefix, failingEnd), prefix, prefix));
+  for (let k = 0; k < contextAfter; k++) {
+    ops.push({ type: ' ', text: passing[passingEnd + k]!, passingIndex: passingEnd + k, failingIndex: failingEnd + k });
+  }
+
+  // Group changes into hunks, merging those separated by little unchanged output
+  const hunks: DiffHunk[] = [];
+  let start = -1;
+  let end = -1;
+  const flush = (): void => {
+    const hunkOps = ops.slice(start, end + 1);
+    hunks.push({
+      stream,
+      passingLine: hunkOps[0]!.passingIndex + 1,
+      failingLine: hunkOps[0]!.failingIndex + 1,
+      lines: hunkOps.map((op) => `${op.type}${op.text}`),
+    });
+  };
+
+  ops.forEach((op, index) => {
+    if (op.type === ' ') {
+      return;
+    }
+    const hunkStart = Math.max(0, index - CONTEXT_LINES);
+    if (start !== -1 && hunkStart > end + 1) {
+      flush();
+      start = -1;
+    }
+    if (start === -1) {
+      start = hunkStart;
+    }
+    end = Math.min(ops.length - 1, index + CONTEXT_LINES);
+  });
+  if (start !== -1) {
+    flush();
+  }
+
+  return hunks;
+}
+
+/**
+ * Diff the normalized output of a passing run against a failing run
+ *
+ * Both stdout and stderr are compared after normalization, so timestamps,
+ * durations, PIDs, ports and the like do not show up as differences.
+ * At most 40 diff lines are kept.
+ *
+ * @param passingRun - Run in which the test passed
+ * @param failingRun - Run in which the test failed
+ * @param normalize - Normalizer applied to both outputs (default: built-in rules)
+ * @returns The diff, or undefined if the normalized outputs are equal
+ *
+ * @example
+ * ```typescript
+ * const diff = diffRuns(report.runs[0], report.runs[3]);
+ * diff?.hunks.forEach(hunk => console.log(hunk.lines.join('\n')));
+ * ```
+ */
+export function diffRuns(
+  passingRun: TestRunResult,
+  failingRun: TestRunResult,
+  normalize: Normalizer = normalizeOutput
+): OutputDiff | undefined {
+  const hunks = [
+    ...diffOutputs(normalize(passingRun.stdout), normalize(failingRun.stdout), 'stdout'),
+    ...diffOutputs(normalize(passingRun.stderr), normalize(failingRun.stderr), 'stderr'),
+  ];
+  if (hunks.length === 0) {
+    return undefined;
+  }
+
+  const diff: OutputDiff = {
+    passingRun: passingRun.runNumber ?? 0,
+    failingRun: failingRun.runNumber ?? 0,
+    hunks: [],
+  };
+
+  let remaining = MAX_DIFF_LINES;
+  for (const hunk of hunks) {
+    if (remaining <= 0) {
+      diff.truncated = true;
+      break;
+    }
+    if (hunk.lines.length > remaining) {
+      diff.hunks.push({ ...hunk, lines: hunk.lines.slice(0, remaining) });
+      diff.truncated = true;
+      break;
+    }
+    diff.hunks.push(hunk);
+    remaining -= hunk.lines.length;
+  }
+
+  return diff;
+}
@@ -0,0 +1,138 @@
+/**
+ * Early stopping rules for flakiness detection
+ *
+ * Supports two stopping rules, checked after every completed run:
+ * - verdict: stop once some test is flaky however the remaining runs turn out
+ * - sprt: Wald's sequential probability ratio test per test, which also stops
+ *   once every test is confidently below the threshold
+ */
+
+import { EarlyStopMode, FlakinessCategory } from './types.js';
+
+/**
+ * Pass/fail counts for a single test (or the whole suite) across completed runs
+ */
+export interface TestTally {
+  testName: string;
+  passed: number;
+  failed: number;
+  category?: FlakinessCategory;
+}
+
+/**
+ * Sequential probability ratio test decision for a single test
+ * - flaky: failure rate is above the threshold
+ * - stable: failure rate is at or below the threshold
+ */
+export type SprtDecision = 'flaky' | 'stable';
+
+/**
+ * SPRT false positive rate (calling a test flaky when it is not)
+ */
+const SPRT_ALPHA = 0.05;
+
+/**
+ * SPRT false negative rate (missing a test that is flaky)
+ */
+const SPRT_BETA = 0.05;
+
+/**
+ * Check whether a test is flaky no matter how the remaining runs turn out
+ *
+ * Even if the test passes every remaining run, its failure rate stays above
+ * the threshold. With the default threshold of 0, one pass and one failure
+ * are enough.
+ *
+ * @param tally - Pass/fail counts so far
+ * @param threshold - Flakiness threshold percentage (0-100)
+ * @param remainingRuns - Runs that have not completed yet
+ * @returns True if the test will be reported as flaky
+ */
+export function isFlakinessProven(tally: TestTally, threshold: number, remainingRuns: number): boolean {
+  if (tally.passed === 0 || tally.failed === 0) {
+    return false;
+  }
+
+  const lowestFailureRate = (tally.failed / (tally.passed + tally.failed + remainingRuns)) * 100;
+  return lowestFailureRate > threshold;
+}
+
+/**
+ * Run Wald's sequential probability ratio test on a test's pass/fail counts
+ *
+ * Tests H0 "failure rate is half the threshold" against H1 "failure rate is
+ * 1.5× the threshold" (capped halfway to 100%), with 5% error rates. Failure
+ * rates between the two are the indifference region, where either decision
+ * is acceptable.
+ *
+ * @param passed - Number of passing runs
+ * @param failed - Number of failing runs
+ * @param threshold - Flakiness threshold percentage (must be > 0)
+ * @returns The decision, or undefined if more runs are needed
+ *
+ * @example
+ * ```typescript
+ * sprtDecide(30, 0, 10); // 'stable'
+ * sprtDecide(4, 6, 10);  // 'flaky'
+ * sprtDecide(3, 0, 10);  // undefined (keep running)
+ * ```
+ */
+export function sprtDecide(passed: number, failed: number, threshold: number): SprtDecision | undefined {
+  const rate = threshold / 100;
+  if (rate >= 1) {
+    return 'stable'; // Failure rate can never exceed 100%
+  }
+
+  const p0 = rate / 2;
+  const p1 = Math.min(rate * 1.5, (1 + rate) / 2);
+
+  const logLikelihoodRatio = failed * Math.log(p1 / p0) + passed * Math.log((1 - p1) / (1 - p0));
+  const upperBound = Math.log((1 - SPRT_BETA) / SPRT_ALPHA);
+  const lowerBound = Math.log(SPRT_BETA / (1 - SPRT_ALPHA));
+
+  if (logLikelihoodRatio >= upperBound) {
+    return 'flaky';
+  }
+  if (logLikelihoodRatio <= lowerBound) {
+    return 'stable';
+  }
+  return undefined;
+}
+
+/**
+ * Decide whether detection can stop before all requested runs complete
+ *
+ * Both modes stop once flakiness is proven. The `sprt` mode (with a
+ * threshold above 0) additionally stops when a test that passed at least
+ * once is statistically above the threshold, or when every test is
+ * statistically at or below it.
+ *
+ * @param mode - Early stopping rule
+ * @param tallies - Pass/fail counts for every test seen so far
+ * @param threshold - Flakiness threshold percentage (0-100)
+ * @param remainingRuns - Runs that have not completed yet
+ * @returns True if detection can stop
+ */
+export function shouldStopEarly(
+  mode: EarlyStopMode,
+  tallies: TestTally[],
+  threshold: number,
+  remainingRuns: number
+): boolean {
+  if (tallies.some((tally) => isFlakinessProven(tally, threshold, remainingRuns))) {
+    return true;
+  }
+
+  if (mode !== 'sprt' || threshold <= 0 || tallies.length === 0) {
+    return false;
+  }
+
+  const decisions = tallies.map((tally) => sprtDecide(tally.passed, tally.failed, threshold));
+
+  const flakyDecided = tallies.some((tally, i) => {
+    const failureRate = (tally.failed / (tally.passed + tally.failed)) * 100;
+    return decisions[i] === 'flaky' && tally.passed > 0 && failureRate > threshold;
+  });
+
+  return flakyDecided || decisions.every((decision) => decision === 'stable');
+}
@@ -7,7 +7,8 @@
  * - minimal: Only flaky test names (one per line)
  */
 
-import { DetectionReport } from './types.js';
+import { DetectionReport, QuarantineEntry, ReportComparison, TestComparison, TestFlakiness, TestHistory } from './types.js';
+import { isExpired } from './quarantine.js';
 
 /**
  * Output format options
@@ -33,6 +34,56 @@ export function formatJSON(report: DetectionReport): string {
   return JSON.stringify(report, null, 2);
 }
 
+/**
+ * Format milliseconds as whole milliseconds below a second, otherwise as seconds
+ */
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Format the statistics of a flaky test as indented text lines
+ */
+function formatStatistics(test: TestFlakiness): string[] {
+  const lines: string[] = [];
+
+  if (test.confidenceInterval) {
+    const { lower, upper, confidence } = test.confidenceInterval;
+    lines.push(`    ${confidence}% CI: ${lower.toFixed(1)}%–${upper.toFixed(1)}% (Wilson)`);
+  }
+  if (test.pValue !== undefined) {
+    const pValue = test.pValue < 0.0001 ? '< 0.0001' : test.pValue.toFixed(4);
+    lines.push(`    p-value vs threshold: ${pValue}`);
+  }
+  if (test.runsToDetect !== undefined && Number.isFinite(test.runsToDetect)) {
+    const confidence = test.confidenceInterval?.confidence ?? 95;
+    lines.push(`    Runs to catch a failure (${confidence}% chance): ${test.runsToDetect}`);
+  }
+  if (test.slowFailures && test.durationCorrelation !== undefined) {
+    lines.push(`    ⏱️  Fails in slow runs (duration correlation: ${test.durationCorrelation.toFixed(2)}) - possibly a timeout`);
+  }
+  if (test.failureClusters && test.failureClusters.length > 0) {
+    lines.push('    Failure signatures:');
+    for (const cluster of test.failureClusters) {
+      const [firstLine, ...moreLines] = cluster.excerpt.split('\n');
+      lines.push(`      • ${cluster.count}× [${cluster.signature}] ${firstLine}`);
+      lines.push(...moreLines.map((line) => `          ${line}`));
+    }
+  }
+  if (test.diff) {
+    lines.push(`    Output diff (run ${test.diff.passingRun} passed, run ${test.diff.failingRun} failed):`);
+    for (const hunk of test.diff.hunks) {
+      lines.push(`      ${hunk.stream} @@ -${hunk.passingLine} +${hunk.failingLine} @@`);
+      lines.push(...hunk.lines.map((line) => `        ${line}`));
+    }
+    if (test.diff.truncated) {
+      lines.push('      … (diff truncated)');
+    }
+  }
+
+  return lines;
+}
+
 /**
  * Format detection report as human-readable text
  *
@@ -62,11 +113,48 @@ export function formatText(report: DetectionReport): string {
     return lines.join('\n');
   }
 
+  if (report.aborted) {
+    lines.push(`⚠️  Detection aborted (partial report of ${report.totalRuns} completed runs)`);
+    lines.push('');
+  }
+
   // Summary
   lines.push('📊 Summary');
-  lines.push(`  Total Runs: ${report.totalRuns}`);
+  lines.push(`  Total Runs: ${report.totalRuns}${report.stoppedEarly ? ' (stopped early)' : ''}`);
+  if (report.shard) {
+    lines.push(`  Shard: ${report.shard.index}/${report.shard.count}`);
+  }
+  if (report.mergedReports !== undefined) {
+    lines.push(`  Merged From: ${report.mergedReports} reports`);
+  }
   lines.push(`  Passed: ${report.passedRuns}`);
   lines.push(`  Failed: ${report.failedRuns}`);
+  if (report.timedOutRuns !== undefined) {
+    lines.push(`  Timed Out: ${report.timedOutRuns}`);
+  }
+  if (report.exitCodes && report.failedRuns > 0) {
+    const exitCodes = Object.entries(report.exitCodes)
+      .sort(([, a], [, b]) => b - a)
+      .map(([code, count]) => `${code} (${count})`);
+    lines.push(`  Exit Codes: ${exitCodes.join(', ')}`);
+  }
+  if (report.durationBudgetMs !== undefined && report.durationMs !== undefined) {
+    lines.push(`  Duration: ${formatDuration(report.durationMs)} (budget: ${formatDuration(report.durationBudgetMs)})`);
+  }
+  if (report.durationStats) {
+    const { min, median, p95, max, coefficientOfVariation } = report.durationStats;
+    lines.push(
+      `  Run Duration: min ${formatDuration(min)}, median ${formatDuration(median)}, p95 ${formatDuration(p95)}, ` +
+        `max ${formatDuration(max)} (CV ${(coefficientOfVariation * 100).toFixed(1)}%)`
+    );
+  }
+  if (report.confidence !== undefined) {
+    const target = report.targetConfidence !== undefined ? ` (target: ${report.targetConfidence}%)` : '';
+    lines.push(`  Confidence: ${report.confidence.toFixed(1)}%${target}`);
+  }
+  if (report.framework) {
+    lines.push(`  Framework: ${report.framework}`);
+  }
   lines.push('');
 
   // Flakiness detection result
@@ -84,13 +172,31 @@ export function formatText(report: DetectionReport): string {
     lines.push('Flaky Tests:');
 
     for (const test of report.flakyTests) {
-      lines.push(`  • ${test.testName}`);
-      lines.push(`    Passed: ${test.passed}/${test.totalRuns} (${(100 - test.failureRate).toFixed(1)}%)`);
-      lines.push(`    Failed: ${test.failed}/${test.totalRuns} (${test.failureRate.toFixed(1)}%)`);
+      const quarantined = test.quarantined ? ' [quarantined]' : '';
+      if (test.category === 'hang') {
+        lines.push(`  • ${test.testName} (intermittent hang)${quarantined}`);
+        lines.push(`    Completed: ${test.passed}/${test.totalRuns} (${(100 - test.failureRate).toFixed(1)}%)`);
+        lines.push(`    Timed Out: ${test.failed}/${test.totalRuns} (${test.failureRate.toFixed(1)}%)`);
+      } else {
+        lines.push(`  • ${test.testName}${quarantined}`);
+        lines.push(`    Passed: ${test.passed}/${test.totalRuns} (${(100 - test.failureRate).toFixed(1)}%)`);
+        lines.push(`    Failed: ${test.failed}/${test.totalRuns} (${test.failureRate.toFixed(1)}%)`);
+      }
+      lines.push(...formatStatistics(test));
       lines.push('');
     }
   }
 
+  if (report.expiredQuarantine) {
+    if (report.flakyTests.length === 0) {
+      lines.push('');
+    }
+    lines.push('⏰ Expired Quarantine (fix these tests, or renew or remove their entries):');
+    for (const entry of report.expiredQuarantine) {
+      lines.push(`  • ${entry.test} (expired ${entry.expires}${entry.owner ? `, owner ${entry.owner}` : ''})`);
+    }
+  }
+
   return lines.join('\n');
 }
 
@@ -152,3 +258,196 @@ export function formatReport(report: DetectionReport, format: OutputFormat): str
       throw new Error(`Unknown format: ${_exhaustive}`);
   }
 }
+
+/**
+ * Detections shown in a history timeline
+ */
+const HISTORY_TIMELINE_LENGTH = 30;
+
+/**
+ * Format an ISO timestamp as "YYYY-MM-DD HH:MM" (UTC)
+ */
+function formatTimestamp(timestamp: string): string {
+  return timestamp.slice(0, 16).replace('T', ' ');
+}
+
+/**
+ * Format the flakiness history of tests
+ *
+ * Text output has one entry per test with how often it was flaky, when it
+ * was first and last flaky, and a timeline of its most recent detections
+ * (✗ flaky, · not flaky). Minimal output lists tests that were ever flaky.
+ *
+ * @param histories - Test histories returned by history()
+ * @param format - Output format (json, text, or minimal)
+ * @returns Formatted string
+ *
+ * @example
+ * ```typescript
+ * const result = await history({ test: 'login works' });
+ * if (result.ok) {
+ *   console.log(formatHistory(result.value, 'text'));
+ * }
+ * ```
+ */
+export function formatHistory(histories: TestHistory[], format: OutputFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(histories, null, 2);
+  }
+  if (format === 'minimal') {
+    return histories.filter((history) => history.flakyDetections > 0).map((history) => history.testName).join('\n');
+  }
+
+  const lines: string[] = [];
+  lines.push('📜 Flakiness History');
+  lines.push('═'.repeat(50));
+  lines.push('');
+
+  if (histories.length === 0) {
+    lines.push('No detections recorded');
+    return lines.join('\n');
+  }
+
+  for (const history of histories) {
+    const runs = history.passed + history.failed;
+    lines.push(`  • ${history.testName}${history.category === 'hang' ? ' (intermittent hang)' : ''}`);
+    if (history.firstFlaky !== undefined && history.lastFlaky !== undefined) {
+      lines.push(
+        `    Flaky in ${history.flakyDetections}/${history.detections} detections ` +
+          `(first ${formatTimestamp(history.firstFlaky)}, last ${formatTimestamp(history.lastFlaky)})`
+      );
+    } else {
+      lines.push(`    Never flaky in ${history.detections} detections`);
+    }
+    lines.push(`    Failed: ${history.failed}/${runs} runs (${history.failureRate.toFixed(1)}%)`);
+    const timeline = history.points
+      .slice(-HISTORY_TIMELINE_LENGTH)
+      .map((point) => (point.flaky ? '✗' : '·'))
+      .join('');
+    lines.push(`    Timeline: ${timeline} (oldest → newest)`);
+    lines.push('');
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+/**
+ * Format a test's failure rate change as "name: 0.0% → 20.0% (p = 0.0123)"
+ */
+function formatTestChange(test: TestComparison): string {
+  const name = `${test.testName}${test.category === 'hang' ? ' (intermittent hang)' : ''}`;
+  const before = test.before ? `${test.before.failureRate.toFixed(1)}%` : 'not run';
+  const pValue = test.pValue === undefined ? '' : ` (p ${test.pValue < 0.0001 ? '< 0.0001' : `= ${test.pValue.toFixed(4)}`})`;
+  return `  • ${name}: ${before} → ${test.after.failureRate.toFixed(1)}%${pValue}`;
+}
+
+/**
+ * Format the comparison of two detection reports
+ *
+ * Text output lists tests that became flaky, were fixed, and whose failure
+ * rate changed significantly. Minimal output lists the new flaky tests.
+ *
+ * @param comparison - Comparison returned by compareReports()
+ * @param format - Output format (json, text, or minimal)
+ * @returns Formatted string
+ *
+ * @example
+ * ```typescript
+ * console.log(formatComparison(compareReports(mainReport, prReport), 'text'));
+ * ```
+ */
+export function formatComparison(comparison: ReportComparison, format: OutputFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(comparison, null, 2);
+  }
+  if (format === 'minimal') {
+    return comparison.newFlaky.map((test) => test.testName).join('\n');
+  }
+
+  const lines: string[] = [];
+  lines.push('🔀 Flakiness Comparison');
+  lines.push('═'.repeat(50));
+  lines.push('');
+
+  lines.push('📊 Summary');
+  lines.push(`  New Flaky: ${comparison.newFlaky.length}`);
+  lines.push(`  Fixed: ${comparison.fixed.length}`);
+  lines.push(`  Still Flaky: ${comparison.stillFlaky}`);
+  lines.push(`  Significant Changes: ${comparison.changed.length}`);
+  lines.push('');
+
+  if (comparison.newFlaky.length === 0 && comparison.changed.every((test) => test.change !== 'worse')) {
+    lines.push('✅ No new flakiness');
+    lines.push('');
+  }
+
+  if (comparison.newFlaky.length > 0) {
+    lines.push('⚠️  New Flaky Tests:');
+    lines.push(...comparison.newFlaky.map(formatTestChange));
+    lines.push('');
+  }
+  if (comparison.fixed.length > 0) {
+    lines.push('✅ Fixed:');
+    lines.push(...comparison.fixed.map(formatTestChange));
+    lines.push('');
+  }
+  if (comparison.changed.length > 0) {
+    lines.push(`📈 Failure Rate Changes (p < ${comparison.significance}):`);
+    lines.push(...comparison.changed.map((test) => `${formatTestChange(test)} - ${test.change}`));
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+/**
+ * Format the quarantine entries
+ *
+ * Text output has one entry per test with its reason, owner and dates,
+ * flagging expired entries. Minimal output lists the quarantined test names.
+ *
+ * @param entries - Entries returned by readQuarantine()
+ * @param format - Output format (json, text, or minimal)
+ * @param now - Current time, for flagging expired entries (default: now)
+ * @returns Formatted string
+ *
+ * @example
+ * ```typescript
+ * console.log(formatQuarantine(await readQuarantine(), 'text'));
+ * ```
+ */
+export function formatQuarantine(entries: QuarantineEntry[], format: OutputFormat, now = new Date()): string {
+  if (format === 'json') {
+    return JSON.stringify(entries, null, 2);
+  }
+  if (format === 'minimal') {
+    return entries.map((entry) => entry.test).join('\n');
+  }
+
+  const lines: string[] = [];
+  lines.push('🔒 Quarantined Tests');
+  lines.push('═'.repeat(50));
+  lines.push('');
+
+  if (entries.length === 0) {
+    lines.push('No quarantined tests');
+    return lines.join('\n');
+  }
+
+  for (const entry of entries) {
+    lines.push(`  • ${entry.test}`);
+    lines.push(`    Reason: ${entry.reason}`);
+    if (entry.owner) {
+      lines.push(`    Owner: ${entry.owner}`);
+    }
+    if (entry.expires === undefined) {
+      lines.push(`    Added: ${entry.added}, no expiry`);
+    } else if (isExpired(entry, now)) {
+      lines.push(`    Added: ${entry.added}, ⏰ expired ${entry.expires}`);
+    } else {
+      lines.push(`    Added: ${entry.added}, expires ${entry.expires}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n').trimEnd();
+}
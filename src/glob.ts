@@ -0,0 +1,129 @@
+/**
+ * Minimal file globbing (zero dependencies, Node 18+)
+ *
+ * Supports `*`, `?`, `**` and `{a,b}` alternation, which covers the
+ * result-file patterns test runners are typically configured with.
+ */
+
+import { readdirSync, statSync } from 'node:fs';
+import { isAbsolute, join, resolve } from 'node:path';
+
+const GLOB_CHARS = /[*?{]/;
+
+/**
+ * Directories never descended into by `**`
+ */
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+/**
+ * Convert a glob pattern to an anchored regular expression
+ *
+ * @param pattern - Glob pattern using forward slashes
+ * @returns Regular expression matching full paths
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let inBraces = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      inBraces = true;
+    } else if (char === '}' && inBraces) {
+      source += ')';
+      inBraces = false;
+    } else if (char === ',' && inBraces) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Expand a glob pattern into matching file paths
+ *
+ * @param pattern - Glob pattern (relative to cwd or absolute)
+ * @param cwd - Directory relative patterns are resolved against
+ * @returns Sorted absolute paths of matching files
+ *
+ * @example
+ * ```typescript
+ * const files = expandGlob('reports/**\/*.xml');
+ * ```
+ */
+export function expandGlob(pattern: string, cwd: string = process.cwd()): string[] {
+  const normalized = pattern.replace(/\\/g, '/');
+  const absolute = isAbsolute(normalized) ? normalized : `${resolve(cwd).replace(/\\/g, '/')}/${normalized}`;
+  const segments = absolute.split('/');
+
+  // Walk from the deepest directory that contains no glob characters
+  const firstGlob = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+  if (firstGlob === -1) {
+    return matchesFile(absolute) ? [absolute] : [];
+  }
+
+  const base = segments.slice(0, firstGlob).join('/') || '/';
+  const recursive = segments.slice(firstGlob).some((segment) => segment.includes('**'));
+  const maxDepth = recursive ? Infinity : segments.length - firstGlob;
+  const matcher = globToRegExp(absolute);
+
+  const matches: string[] = [];
+  walk(base, 1, maxDepth, (file) => {
+    if (matcher.test(file.replace(/\\/g, '/'))) {
+      matches.push(file);
+    }
+  });
+
+  return matches.sort();
+}
+
+/**
+ * Check whether a literal path is an existing file
+ */
+function matchesFile(path: string): boolean {
+  try {
+    return statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Recursively visit files below a directory
+ */
+function walk(dir: string, depth: number, maxDepth: number, visit: (file: string) => void): void {
+  let entries;
+  try {
+    entries = readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return; // Missing or unreadable directory
+  }
+
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (entry.isFile()) {
+      visit(path);
+    } else if (entry.isDirectory() && depth < maxDepth && !SKIPPED_DIRECTORIES.has(entry.name)) {
+      walk(path, depth + 1, maxDepth, visit);
+    }
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Persistent flakiness history
+ *
+ * Every recorded detection appends a compact summary of its report (per-test
+ * pass/fail counts, timestamp, command, git commit) as one JSON line to
+ * `history.jsonl` in the history directory. Querying the history shows how
+ * each test behaved over time: flaky for a week, or only since today.
+ */
+
+import { execFile } from 'node:child_process';
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { DetectionReport, HistoryEntry, HistoryOptions, TestHistory, TestHistoryPoint } from './types.js';
+import { tallyTests } from './detector.js';
+
+/**
+ * Default directory of the flakiness history (relative to the working directory)
+ */
+export const DEFAULT_HISTORY_DIR = '.flaky-history';
+
+/**
+ * File in the history directory holding one entry per line
+ */
+const HISTORY_FILE = 'history.jsonl';
+
+/**
+ * Maximum time to wait for git to report the current commit
+ */
+const GIT_TIMEOUT_MS = 5000;
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Commit checked out in the working directory
+ *
+ * @param cwd - Directory inside the git repository (default: working directory)
+ * @returns Commit hash, or undefined outside a git repository or without git
+ */
+export async function gitCommit(cwd?: string): Promise<string | undefined> {
+  try {
+    const { stdout } = await execFileAsync('git', ['rev-parse', 'HEAD'], { cwd, timeout: GIT_TIMEOUT_MS });
+    const commit = stdout.trim();
+    return /^[0-9a-f]{7,64}$/.test(commit) ? commit : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Summarize a detection report as a history entry
+ *
+ * @param report - Detection report
+ * @param command - Test command that produced the report
+ * @param commit - Git commit the tests ran against
+ * @param timestamp - When detection finished (default: now)
+ * @returns Compact summary with per-test pass/fail counts
+ *
+ * @example
+ * ```typescript
+ * const entry = summarizeReport(report, 'npm test', 'a1b2c3d');
+ * // { timestamp: '2026-10-19T08:00:00.000Z', command: 'npm test', commit: 'a1b2c3d', ..., tests: [...] }
+ * ```
+ */
+export function summarizeReport(
+  report: DetectionReport,
+  command: string,
+  commit?: string,
+  timestamp = new Date()
+): HistoryEntry {
+  const entry: HistoryEntry = {
+    timestamp: timestamp.toISOString(),
+    command,
+    totalRuns: report.totalRuns,
+    passedRuns: report.passedRuns,
+    failedRuns: report.failedRuns,
+    tests: tallyTests(report.runs).map(({ testName, passed, failed, category }) => {
+      const flaky = report.flakyTests.some((test) => test.testName === testName && test.category === category);
+      return category ? { testName, passed, failed, category, flaky } : { testName, passed, failed, flaky };
+    }),
+  };
+  if (commit) {
+    entry.commit = commit;
+  }
+  return entry;
+}
+
+/**
+ * Append an entry to the history
+ *
+ * @param dir - History directory (created if missing)
+ * @param entry - Entry to append
+ */
+export async function appendHistory(dir: string, entry: HistoryEntry): Promise<void> {
+  await mkdir(dir, { recursive: true });
+  await appendFile(join(dir, HISTORY_FILE), `${JSON.stringify(entry)}\n`, 'utf-8');
+}
+
+/**
+ * Summarize a report and append it to the history, with the current git commit
+ *
+ * @param report - Detection report
+ * @param command - Test command that produced the report
+ * @param dir - History directory (default: .flaky-history)
+ * @returns The recorded entry
+ */
+export async function recordHistory(
+  report: DetectionReport,
+  command: string,
+  dir = DEFAULT_HISTORY_DIR
+): Promise<HistoryEntry> {
+  const entry = summarizeReport(report, command, await gitCommit());
+  await appendHistory(dir, entry);
+  return entry;
+}
+
+/**
+ * Whether a parsed line looks like a history entry
+ */
+function isHistoryEntry(value: unknown): value is HistoryEntry {
+  const entry = value as HistoryEntry;
+  return (
+    typeof entry === 'object' &&
+    entry !== null &&
+    typeof entry.timestamp === 'string' &&
+    typeof entry.command === 'string' &&
+    Array.isArray(entry.tests)
+  );
+}
+
+/**
+ * Read every entry of the history
+ *
+ * Lines that are not valid entries (e.g. a line cut short by a crash) are skipped.
+ *
+ * @param dir - History directory (default: .flaky-history)
+ * @returns Entries in the order they were recorded (empty if there is no history)
+ */
+export async function readHistory(dir = DEFAULT_HISTORY_DIR): Promise<HistoryEntry[]> {
+  let content: string;
+  try {
+    content = await readFile(join(dir, HISTORY_FILE), 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const entries: HistoryEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (line.trim() === '') {
+      continue;
+    }
+    try {
+      const entry: unknown = JSON.parse(line);
+      if (isHistoryEntry(entry)) {
+        entries.push(entry);
+      }
+    } catch {
+      // Skip corrupt lines
+    }
+  }
+  return entries;
+}
+
+/**
+ * Aggregate history entries per test
+ *
+ * @param entries - History entries, oldest first
+ * @param options - Filters by test name, command and time
+ * @returns Each test's flakiness over time, most often flaky first
+ *
+ * @example
+ * ```typescript
+ * const [login] = testHistory(await readHistory(), { test: 'login works' });
+ * console.log(`Flaky in ${login.flakyDetections}/${login.detections} detections since ${login.firstFlaky}`);
+ * ```
+ */
+export function testHistory(entries: HistoryEntry[], options: Omit<HistoryOptions, 'dir'> = {}): TestHistory[] {
+  const histories = new Map<string, TestHistory>();
+
+  for (const entry of entries) {
+    if (options.command !== undefined && entry.command !== options.command) {
+      continue;
+    }
+    if (options.since !== undefined && Date.parse(entry.timestamp) < options.since.getTime()) {
+      continue;
+    }
+
+    for (const test of entry.tests) {
+      if (options.test !== undefined && test.testName !== options.test) {
+        continue;
+      }
+
+      const key = `${test.category ?? ''}\0${test.testName}`;
+      let history = histories.get(key);
+      if (!history) {
+        history = {
+          testName: test.testName,
+          detections: 0,
+          flakyDetections: 0,
+          passed: 0,
+          failed: 0,
+          failureRate: 0,
+          firstSeen: entry.timestamp,
+          lastSeen: entry.timestamp,
+          points: [],
+        };
+        if (test.category) {
+          history.category = test.category;
+        }
+        histories.set(key, history);
+      }
+
+      history.detections++;
+      history.passed += test.passed;
+      history.failed += test.failed;
+      history.lastSeen = entry.timestamp;
+      if (test.flaky) {
+        history.flakyDetections++;
+        history.firstFlaky ??= entry.timestamp;
+        history.lastFlaky = entry.timestamp;
+      }
+
+      const point: TestHistoryPoint = {
+        timestamp: entry.timestamp,
+        passed: test.passed,
+        failed: test.failed,
+        flaky: test.flaky,
+      };
+      if (entry.commit) {
+        point.commit = entry.commit;
+      }
+      history.points.push(point);
+    }
+  }
+
+  for (const history of histories.values()) {
+    const runs = history.passed + history.failed;
+    history.failureRate = runs > 0 ? (history.failed / runs) * 100 : 0;
+  }
+
+  return [...histories.values()].sort(
+    (a, b) => b.flakyDetections - a.flakyDetections || a.testName.localeCompare(b.testName)
+  );
+}
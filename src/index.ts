@@ -7,10 +7,32 @@
  * Dogfooding: Uses cli-progress-reporting for progress tracking.
  */
 
-import { realpathSync } from 'node:fs';
-import { detectFlakiness } from './detector.js';
-import { Config, ProgressEvent } from './types.js';
-import { formatReport, OutputFormat } from './formatters.js';
+import { readFileSync, realpathSync } from 'node:fs';
+import { detectFlakiness, classifyFailure } from './detector.js';
+import {
+  CompareOptions,
+  Config,
+  DetectionReport,
+  HistoryOptions,
+  MergeOptions,
+  ProgressEvent,
+  QuarantineEntry,
+  ReportComparison,
+} from './types.js';
+import { formatReport, formatHistory, formatComparison, formatQuarantine, OutputFormat } from './formatters.js';
+import { compareReports } from './compare.js';
+import { mergeReports } from './merge.js';
+import { history } from './api.js';
+import { DEFAULT_HISTORY_DIR } from './history.js';
+import {
+  DEFAULT_QUARANTINE_FILE,
+  readQuarantine,
+  writeQuarantine,
+  addToQuarantine,
+  removeFromQuarantine,
+  pruneQuarantine,
+  toDate,
+} from './quarantine.js';
 
 // Re-export types
 export type {
@@ -20,22 +42,87 @@ export type {
   IsFlakyOptions,
   CompileOptions,
   TestRunResult,
+  TestCaseStatus,
+  TestCaseOutcome,
+  FailureKind,
+  ParseContext,
+  ResultFileSnapshot,
+  ResultParser,
   TestFlakiness,
+  FlakinessCategory,
+  ConfidenceInterval,
+  DurationStats,
+  FailureCluster,
+  DiffHunk,
+  OutputDiff,
+  BuiltinNormalization,
+  NormalizationRule,
+  NormalizeOptions,
+  HistoryTestSummary,
+  HistoryEntry,
+  HistoryOptions,
+  TestHistoryPoint,
+  TestHistory,
+  TestOutcomeSummary,
+  TestChange,
+  TestComparison,
+  CompareOptions,
+  ReportComparison,
+  MergeOptions,
+  ShardSpec,
+  QuarantineEntry,
+  EarlyStopMode,
   DetectionReport,
   FlakinessReport,
   CompiledDetector,
+  RunOptions,
   ProgressEvent,
 } from './types.js';
 
 // Re-export formatters
 export type { OutputFormat } from './formatters.js';
-export { formatReport, formatJSON, formatText, formatMinimal } from './formatters.js';
+export { formatReport, formatJSON, formatText, formatMinimal, formatHistory, formatComparison, formatQuarantine } from './formatters.js';
+
+// Re-export output normalization
+export type { Normalizer } from './normalize.js';
+export { normalizeOutput, createNormalizer, BUILTIN_NORMALIZATIONS } from './normalize.js';
+
+// Re-export flakiness history
+export { readHistory, recordHistory, summarizeReport, appendHistory, testHistory, gitCommit, DEFAULT_HISTORY_DIR } from './history.js';
+
+// Re-export report comparison
+export { compareReports } from './compare.js';
+export { fisherExactTest } from './statistics.js';
+
+// Re-export report merging
+export { mergeReports } from './merge.js';
+
+// Re-export quarantine management
+export {
+  readQuarantine,
+  writeQuarantine,
+  addToQuarantine,
+  removeFromQuarantine,
+  pruneQuarantine,
+  markQuarantined,
+  isExpired,
+  DEFAULT_QUARANTINE_FILE,
+} from './quarantine.js';
+
+// Re-export test result parsers
+export { parseTAP } from './parsers/tap.js';
+export { parseJUnitXML } from './parsers/junit.js';
+export { parseJestJSON } from './parsers/jest-json.js';
+export { parseGoTestJSON } from './parsers/go-json.js';
+export { parsePytest } from './parsers/pytest.js';
+export { parseCargoTest } from './parsers/cargo.js';
+export { registerParser, getParser, listParsers } from './parsers/index.js';
 
 // Re-export multi-tier APIs
-export { detect, isFlaky, compileDetector } from './api.js';
+export { detect, isFlaky, compileDetector, history } from './api.js';
 
 // Re-export legacy API for backward compatibility
-export { detectFlakiness };
+export { detectFlakiness, classifyFailure };
 
 /**
  * CLI-specific configuration extending base Config
@@ -43,15 +130,39 @@ export { detectFlakiness };
 interface CLIConfig extends Config {
   format?: OutputFormat;
   stream?: boolean;
+  respectQuarantine?: boolean;
+}
+
+/**
+ * Milliseconds per duration unit accepted by --duration
+ */
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration such as "15m", "30s", "1.5h", "7d" or "500ms" (bare numbers are seconds)
+ *
+ * @returns Duration in milliseconds, or undefined if the value is not a duration
+ */
+function parseDuration(value: string): number | undefined {
+  const match = /^(\d+(?:\.\d+)?)(ms|s|m|h|d)?$/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  return Math.round(parseFloat(match[1]!) * DURATION_UNITS[match[2] ?? 's']!);
 }
 
 /**
  * Parse command line arguments
  */
-function parseArgs(args: string[]): { config: CLIConfig; showHelp: boolean } {
+function parseArgs(args: string[]): { config: CLIConfig; showHelp: boolean; error?: string } {
   const config: CLIConfig = {
     testCommand: '',
-    runs: 10,
     verbose: false,
     format: 'json',
     stream: false,
@@ -79,6 +190,90 @@ function parseArgs(args: string[]): { config: CLIConfig; showHelp: boolean } {
           i++; // Skip next arg
         }
       }
+    } else if (arg === '--concurrency' || arg === '-j') {
+      const concurrencyValue = args[i + 1];
+      if (concurrencyValue) {
+        const concurrencyNum = parseInt(concurrencyValue, 10);
+        if (!isNaN(concurrencyNum)) {
+          config.concurrency = concurrencyNum;
+          i++; // Skip next arg
+        }
+      }
+    } else if (arg === '--timeout') {
+      const timeoutValue = args[i + 1];
+      if (timeoutValue) {
+        const timeoutNum = parseInt(timeoutValue, 10);
+        if (!isNaN(timeoutNum)) {
+          config.timeoutMs = timeoutNum;
+          i++; // Skip next arg
+        }
+      }
+    } else if (arg === '--confidence') {
+      const confidenceValue = args[i + 1];
+      if (confidenceValue) {
+        const confidenceNum = parseFloat(confidenceValue);
+        if (!isNaN(confidenceNum)) {
+          config.confidence = confidenceNum;
+          i++; // Skip next arg
+        }
+      }
+    } else if (arg === '--duration') {
+      const durationValue = args[i + 1];
+      if (durationValue) {
+        const durationMs = parseDuration(durationValue);
+        if (durationMs !== undefined) {
+          config.maxDurationMs = durationMs;
+          i++; // Skip next arg
+        }
+      }
+    } else if (arg === '--early-stop') {
+      // Optional mode argument: --early-stop [verdict|sprt]
+      const modeValue = args[i + 1];
+      if (modeValue === 'verdict' || modeValue === 'sprt') {
+        config.earlyStop = modeValue;
+        i++; // Skip next arg
+      } else {
+        config.earlyStop = true;
+      }
+    } else if (arg === '--junit') {
+      const junitValue = args[i + 1];
+      if (junitValue) {
+        config.junit = junitValue;
+        i++; // Skip next arg
+      }
+    } else if (arg === '--results') {
+      const resultsValue = args[i + 1];
+      if (resultsValue) {
+        config.resultFiles = resultsValue;
+        i++; // Skip next arg
+      }
+    } else if (arg === '--parser' || arg === '-p') {
+      const parserValue = args[i + 1];
+      if (parserValue) {
+        config.parser = parserValue;
+        i++; // Skip next arg
+      }
+    } else if (arg === '--history-dir') {
+      const historyValue = args[i + 1];
+      if (historyValue) {
+        config.historyDir = historyValue;
+        i++; // Skip next arg
+      }
+    } else if (arg === '--shard') {
+      const match = /^(\d+)\/(\d+)$/.exec(args[i + 1] ?? '');
+      if (!match) {
+        return { config, showHelp, error: 'Invalid --shard value (expected i/n such as 3/8)' };
+      }
+      config.shard = { index: parseInt(match[1]!, 10), count: parseInt(match[2]!, 10) };
+      i++; // Skip next arg
+    } else if (arg === '--quarantine-file') {
+      const quarantineValue = args[i + 1];
+      if (quarantineValue) {
+        config.quarantineFile = quarantineValue;
+        i++; // Skip next arg
+      }
+    } else if (arg === '--respect-quarantine') {
+      config.respectQuarantine = true;
     } else if (arg === '--test' || arg === '-t') {
       const testValue = args[i + 1];
       if (testValue) {
@@ -103,6 +298,528 @@ function parseArgs(args: string[]): { config: CLIConfig; showHelp: boolean } {
   return { config, showHelp };
 }
 
+/**
+ * Parse command line arguments of the history subcommand
+ */
+function parseHistoryArgs(args: string[]): { options: HistoryOptions; format: OutputFormat; showHelp: boolean; error?: string } {
+  const options: HistoryOptions = {};
+  let format: OutputFormat = 'text';
+  let showHelp = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--history-dir') {
+      const dirValue = args[i + 1];
+      if (dirValue) {
+        options.dir = dirValue;
+        i++; // Skip next arg
+      }
+    } else if (arg === '--test-name' || arg === '-n') {
+      const nameValue = args[i + 1];
+      if (nameValue) {
+        options.test = nameValue;
+        i++; // Skip next arg
+      }
+    } else if (arg === '--command') {
+      const commandValue = args[i + 1];
+      if (commandValue) {
+        options.command = commandValue;
+        i++; // Skip next arg
+      }
+    } else if (arg === '--since') {
+      const sinceValue = args[i + 1];
+      const sinceMs = sinceValue ? parseDuration(sinceValue) : undefined;
+      if (sinceMs === undefined) {
+        return { options, format, showHelp, error: 'Invalid --since value (expected a time span such as 7d, 12h or 30m)' };
+      }
+      options.since = new Date(Date.now() - sinceMs);
+      i++; // Skip next arg
+    } else if (arg === '--format' || arg === '-f') {
+      const formatValue = args[i + 1];
+      if (formatValue === 'json' || formatValue === 'text' || formatValue === 'minimal') {
+        format = formatValue;
+        i++; // Skip next arg
+      }
+    } else if (arg === '--help' || arg === '-h') {
+      showHelp = true;
+    }
+  }
+
+  return { options, format, showHelp };
+}
+
+/**
+ * Print help message of the history subcommand
+ */
+function printHistoryHelp(): void {
+  console.log(`Usage: flaky history [options]
+
+Show how tests behaved across detections recorded with --history-dir.
+
+Options:
+  --history-dir <dir>      History directory (default: ${DEFAULT_HISTORY_DIR})
+  -n, --test-name <name>   Only show this test
+  --command <command>      Only include detections of this test command
+  --since <time>           Only include detections from the last 7d, 12h, 30m, ...
+  -f, --format <format>    Output format: text, json, minimal (default: text)
+  -h, --help               Show this help message
+
+Examples:
+  # Every test's flakiness over time
+  flaky history
+
+  # Has this test been flaky all week or did it just start?
+  flaky history --test-name "login works" --since 7d`);
+}
+
+/**
+ * Run the history subcommand
+ */
+async function historyCommand(args: string[]): Promise<void> {
+  const { options, format, showHelp, error } = parseHistoryArgs(args);
+
+  if (showHelp) {
+    printHistoryHelp();
+    return;
+  }
+
+  if (error) {
+    console.error(`Error: ${error}`);
+    globalThis.process?.exit(2);
+    return;
+  }
+
+  const result = await history(options);
+  if (!result.ok) {
+    console.error(`Error: ${result.error.message}`);
+    globalThis.process?.exit(2);
+    return;
+  }
+
+  const output = formatHistory(result.value, format);
+  if (output) {
+    console.log(output);
+  }
+}
+
+/**
+ * Parse command line arguments of the compare subcommand
+ */
+function parseCompareArgs(args: string[]): {
+  files: string[];
+  options: CompareOptions;
+  format: OutputFormat;
+  showHelp: boolean;
+  error?: string;
+} {
+  const files: string[] = [];
+  const options: CompareOptions = {};
+  let format: OutputFormat = 'text';
+  let showHelp = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+
+    if (arg === '--significance') {
+      const significanceValue = parseFloat(args[i + 1] ?? '');
+      if (isNaN(significanceValue)) {
+        return { files, options, format, showHelp, error: 'Invalid --significance value (expected a number between 0 and 1)' };
+      }
+      options.significance = significanceValue;
+      i++; // Skip next arg
+    } else if (arg === '--format' || arg === '-f') {
+      const formatValue = args[i + 1];
+      if (formatValue === 'json' || formatValue === 'text' || formatValue === 'minimal') {
+        format = formatValue;
+        i++; // Skip next arg
+      }
+    } else if (arg === '--help' || arg === '-h') {
+      showHelp = true;
+    } else if (!arg.startsWith('-')) {
+      files.push(arg);
+    }
+  }
+
+  return { files, options, format, showHelp };
+}
+
+/**
+ * Print help message of the compare subcommand
+ */
+function printCompareHelp(): void {
+  console.log(`Usage: flaky compare <before.json> <after.json> [options]
+
+Compare two JSON reports: list tests that became flaky, were fixed, or whose
+failure rate changed significantly (Fisher exact test).
+
+Options:
+  --significance <p>       p-value below which a failure rate change is significant (default: 0.05)
+  -f, --format <format>    Output format: text, json, minimal (default: text)
+  -h, --help               Show this help message
+
+Exit Codes:
+  0 - No new flaky tests and no significantly worse failure rates
+  1 - New flaky tests or significantly worse failure rates
+  2 - Invalid arguments or unreadable reports
+
+Examples:
+  # Gate a pull request on no new flaky tests compared with main
+  flaky --test "npm test" --runs 20 > pr.json
+  flaky compare main.json pr.json`);
+}
+
+/**
+ * Read a JSON detection report written by formatJSON()
+ */
+function readReport(file: string): DetectionReport {
+  let report: DetectionReport;
+  try {
+    report = JSON.parse(readFileSync(file, 'utf-8')) as DetectionReport;
+  } catch (error) {
+    throw new Error(`Cannot read report ${file}: ${(error as Error).message}`);
+  }
+  if (typeof report !== 'object' || report === null || !Array.isArray(report.flakyTests) || !Array.isArray(report.runs)) {
+    throw new Error(`${file} is not a detection report`);
+  }
+  return report;
+}
+
+/**
+ * Run the compare subcommand
+ */
+function compareCommand(args: string[]): void {
+  const { files, options, format, showHelp, error } = parseCompareArgs(args);
+
+  if (showHelp) {
+    printCompareHelp();
+    return;
+  }
+
+  if (error || files.length !== 2) {
+    console.error(`Error: ${error ?? 'Two report files are required'}`);
+    console.error('Use flaky compare --help for more information');
+    globalThis.process?.exit(2);
+    return;
+  }
+
+  let comparison: ReportComparison;
+  try {
+    comparison = compareReports(readReport(files[0]!), readReport(files[1]!), options);
+  } catch (compareError) {
+    console.error(`Error: ${(compareError as Error).message}`);
+    globalThis.process?.exit(2);
+    return;
+  }
+
+  const output = formatComparison(comparison, format);
+  if (output) {
+    console.log(output);
+  }
+
+  // Exit with code 1 on new flakiness, so CI can gate on it
+  if (comparison.newFlaky.length > 0 || comparison.changed.some((test) => test.change === 'worse')) {
+    globalThis.process?.exit(1);
+  }
+}
+
+/**
+ * Parse command line arguments of the merge subcommand
+ */
+function parseMergeArgs(args: string[]): { files: string[]; options: MergeOptions; format: OutputFormat; showHelp: boolean } {
+  const files: string[] = [];
+  const options: MergeOptions = {};
+  let format: OutputFormat = 'json';
+  let showHelp = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+
+    if (arg === '--threshold') {
+      const thresholdValue = args[i + 1];
+      if (thresholdValue) {
+        const thresholdNum = parseFloat(thresholdValue);
+        if (!isNaN(thresholdNum)) {
+          options.threshold = thresholdNum;
+          i++; // Skip next arg
+        }
+      }
+    } else if (arg === '--confidence') {
+      const confidenceValue = args[i + 1];
+      if (confidenceValue) {
+        const confidenceNum = parseFloat(confidenceValue);
+        if (!isNaN(confidenceNum)) {
+          options.confidence = confidenceNum;
+          i++; // Skip next arg
+        }
+      }
+    } else if (arg === '--format' || arg === '-f') {
+      const formatValue = args[i + 1];
+      if (formatValue === 'json' || formatValue === 'text' || formatValue === 'minimal') {
+        format = formatValue;
+        i++; // Skip next arg
+      }
+    } else if (arg === '--help' || arg === '-h') {
+      showHelp = true;
+    } else if (!arg.startsWith('-')) {
+      files.push(arg);
+    }
+  }
+
+  return { files, options, format, showHelp };
+}
+
+/**
+ * Print help message of the merge subcommand
+ */
+function printMergeHelp(): void {
+  console.log(`Usage: flaky merge <report.json>... [options]
+
+Merge the JSON reports of sharded or distributed detections into one report,
+recomputing every statistic from the combined runs. Each run records the
+shard and hostname it came from.
+
+Options:
+  --threshold <percent>    Flakiness threshold the partial detections used (default: 0)
+  --confidence <percent>   Confidence level for intervals (default: the reports' --confidence)
+  -f, --format <format>    Output format: json, text, minimal (default: json)
+  -h, --help               Show this help message
+
+Exit Codes:
+  0 - No flakiness found in the merged runs
+  1 - Flakiness detected
+  2 - Invalid arguments or unreadable reports
+
+Examples:
+  # Combine the reports of 8 CI jobs
+  flaky merge shard-*.json > flakiness-report.json
+
+  # Human-readable summary of the merged runs
+  flaky merge shard-*.json --threshold 5 --format text`);
+}
+
+/**
+ * Run the merge subcommand
+ */
+function mergeCommand(args: string[]): void {
+  const { files, options, format, showHelp } = parseMergeArgs(args);
+
+  if (showHelp) {
+    printMergeHelp();
+    return;
+  }
+
+  if (files.length === 0) {
+    console.error('Error: At least one report file is required');
+    console.error('Use flaky merge --help for more information');
+    globalThis.process?.exit(2);
+    return;
+  }
+
+  let report: DetectionReport;
+  try {
+    report = mergeReports(files.map(readReport), options);
+  } catch (mergeError) {
+    console.error(`Error: ${(mergeError as Error).message}`);
+    globalThis.process?.exit(2);
+    return;
+  }
+
+  const output = formatReport(report, format);
+  if (output) {
+    console.log(output);
+  }
+
+  // Exit with code 1 if flaky tests were found
+  if (report.flakyTests.length > 0) {
+    globalThis.process?.exit(1);
+  }
+}
+
+/**
+ * Actions of the quarantine subcommand
+ */
+type QuarantineAction = 'add' | 'remove' | 'list' | 'prune';
+
+/**
+ * Default quarantine period of `flaky quarantine add`
+ */
+const DEFAULT_QUARANTINE_PERIOD = '30d';
+
+/**
+ * Parse an expiry given as a date (YYYY-MM-DD) or a time span from today (e.g. 14d)
+ *
+ * @returns Expiry date, or undefined if the value is neither
+ */
+function parseExpiry(value: string, now = new Date()): string | undefined {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return isNaN(Date.parse(value)) ? undefined : value;
+  }
+  const periodMs = parseDuration(value);
+  return periodMs === undefined ? undefined : toDate(new Date(now.getTime() + periodMs));
+}
+
+/**
+ * Parse command line arguments of the quarantine subcommand
+ */
+function parseQuarantineArgs(args: string[]): {
+  action?: QuarantineAction;
+  test?: string;
+  file: string;
+  reason?: string;
+  owner?: string;
+  expires: string;
+  format: OutputFormat;
+  showHelp: boolean;
+  error?: string;
+} {
+  const positional: string[] = [];
+  let file = DEFAULT_QUARANTINE_FILE;
+  let reason: string | undefined;
+  let owner: string | undefined;
+  let expires = DEFAULT_QUARANTINE_PERIOD;
+  let format: OutputFormat = 'text';
+  let showHelp = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+
+    if (arg === '--quarantine-file') {
+      const fileValue = args[i + 1];
+      if (fileValue) {
+        file = fileValue;
+        i++; // Skip next arg
+      }
+    } else if (arg === '--reason') {
+      const reasonValue = args[i + 1];
+      if (reasonValue) {
+        reason = reasonValue;
+        i++; // Skip next arg
+      }
+    } else if (arg === '--owner') {
+      const ownerValue = args[i + 1];
+      if (ownerValue) {
+        owner = ownerValue;
+        i++; // Skip next arg
+      }
+    } else if (arg === '--expires') {
+      const expiresValue = args[i + 1];
+      if (expiresValue) {
+        expires = expiresValue;
+        i++; // Skip next arg
+      }
+    } else if (arg === '--format' || arg === '-f') {
+      const formatValue = args[i + 1];
+      if (formatValue === 'json' || formatValue === 'text' || formatValue === 'minimal') {
+        format = formatValue;
+        i++; // Skip next arg
+      }
+    } else if (arg === '--help' || arg === '-h') {
+      showHelp = true;
+    } else if (!arg.startsWith('-')) {
+      positional.push(arg);
+    }
+  }
+
+  const [actionValue, test] = positional;
+  const parsed = { test, file, reason, owner, expires, format, showHelp };
+  if (actionValue === undefined) {
+    return parsed;
+  }
+  if (actionValue !== 'add' && actionValue !== 'remove' && actionValue !== 'list' && actionValue !== 'prune') {
+    return { ...parsed, error: `Unknown quarantine command: ${actionValue} (expected add, remove, list or prune)` };
+  }
+  if ((actionValue === 'add' || actionValue === 'remove') && test === undefined) {
+    return { ...parsed, error: `flaky quarantine ${actionValue} needs the name of a test` };
+  }
+  return { ...parsed, action: actionValue };
+}
+
+/**
+ * Print help message of the quarantine subcommand
+ */
+function printQuarantineHelp(): void {
+  console.log(`Usage: flaky quarantine <add|remove|list|prune> [options]
+
+Manage known flaky tests that should not block merges while they are being fixed.
+Detection marks quarantined flaky tests; with --respect-quarantine they no longer
+fail the run. Expired entries fail every detection until renewed or removed.
+
+Commands:
+  add <test>               Quarantine a test (or renew its entry)
+  remove <test>            Take a test out of quarantine
+  list                     Show quarantined tests, flagging expired entries
+  prune                    Remove expired entries
+
+Options:
+  --quarantine-file <file> Quarantine file (default: ${DEFAULT_QUARANTINE_FILE})
+  --reason <text>          Why the test is quarantined, e.g. an issue link (required for add)
+  --owner <name>           Who is fixing the test
+  --expires <when>         Last day of the quarantine: YYYY-MM-DD or a time span such as 14d
+                           (default: ${DEFAULT_QUARANTINE_PERIOD})
+  -f, --format <format>    Output format of list: text, json, minimal (default: text)
+  -h, --help               Show this help message
+
+Examples:
+  # Quarantine a flaky test for two weeks
+  flaky quarantine add "login works" --reason "https://github.com/org/repo/issues/42" --owner alice --expires 14d
+
+  # Keep merges unblocked by quarantined tests
+  flaky --test "npm test" --runs 20 --respect-quarantine
+
+  # Drop entries whose quarantine is over
+  flaky quarantine prune`);
+}
+
+/**
+ * Run the quarantine subcommand
+ */
+async function quarantineCommand(args: string[]): Promise<void> {
+  const { action, test, file, reason, owner, expires, format, showHelp, error } = parseQuarantineArgs(args);
+
+  if (showHelp || (action === undefined && error === undefined)) {
+    printQuarantineHelp();
+    return;
+  }
+
+  if (error || action === undefined) {
+    console.error(`Error: ${error}`);
+    globalThis.process?.exit(2);
+    return;
+  }
+
+  try {
+    const entries = await readQuarantine(file);
+
+    if (action === 'list') {
+      const output = formatQuarantine(entries, format);
+      if (output) {
+        console.log(output);
+      }
+    } else if (action === 'prune') {
+      const remaining = pruneQuarantine(entries);
+      await writeQuarantine(file, remaining);
+      console.log(`Removed ${entries.length - remaining.length} expired entries from ${file}`);
+    } else if (action === 'remove') {
+      await writeQuarantine(file, removeFromQuarantine(entries, test!));
+      console.log(`Removed ${test} from quarantine`);
+    } else {
+      const expiry = parseExpiry(expires);
+      if (expiry === undefined) {
+        throw new Error('Invalid --expires value (expected a date such as 2026-11-30 or a time span such as 14d)');
+      }
+      const entry: QuarantineEntry = owner
+        ? { test: test!, reason: reason ?? '', owner, added: toDate(), expires: expiry }
+        : { test: test!, reason: reason ?? '', added: toDate(), expires: expiry };
+      await writeQuarantine(file, addToQuarantine(entries, entry));
+      console.log(`Quarantined ${test} until ${expiry}`);
+    }
+  } catch (quarantineError) {
+    console.error(`Error: ${(quarantineError as Error).message}`);
+    globalThis.process?.exit(2);
+  }
+}
+
 /**
  * Print help message
  */
@@ -113,11 +830,47 @@ Detect unreliable tests by running them multiple times and tracking failure rate
 
 Usage: test-flakiness-detector [options]
        flaky [options]
+       flaky history [options]
+       flaky compare <before.json> <after.json> [options]
+       flaky merge <report.json>... [options]
+       flaky quarantine <add|remove|list|prune> [options]
+
+Commands:
+  history                  Show each test's flakiness across recorded detections
+                           (see flaky history --help)
+  compare                  Compare two JSON reports: new flaky, fixed and significantly
+                           changed tests (see flaky compare --help)
+  merge                    Merge the JSON reports of sharded or distributed detections
+                           (see flaky merge --help)
+  quarantine               Manage known flaky tests that should not block merges
+                           (see flaky quarantine --help)
 
 Options:
   -t, --test <command>     Test command to execute (required)
-  -r, --runs <number>      Number of times to run the test (default: 10)
+  -r, --runs <number>      Number of times to run the test (default: 10, 100 with --confidence,
+                           1000 with --duration)
   --threshold <percent>    Flakiness threshold 0-100 (default: 0, any failure = flaky)
+  -j, --concurrency <n>    Number of runs to execute at the same time (default: 1)
+  --timeout <ms>           Kill runs (and their child processes) that take longer (default: none)
+  --confidence <percent>   Keep running until each test's failure rate is known to be above
+                           or below --threshold with this confidence (e.g. 95); --runs is the budget
+  --duration <time>        Keep re-running until this time budget is spent, e.g. 15m, 30s, 1h
+                           (runs are only started if expected to finish in time)
+  --early-stop [mode]      Stop once the verdict is settled: verdict (default) stops when
+                           flakiness is proven, sprt also stops when tests are statistically
+                           below a non-zero --threshold
+  --junit <glob>           Read per-test results from JUnit XML files after each run
+  -p, --parser <name>      Result parser for per-test tracking: tap, junit, jest-json,
+                           go-json, pytest, cargo (default: auto-detect)
+  --results <glob>         Read result files written by each run instead of stdout (needs --parser;
+                           like --junit, not with --concurrency above 1)
+  --history-dir <dir>      Append a summary of the report to the flakiness history in <dir>
+                           (e.g. ${DEFAULT_HISTORY_DIR})
+  --quarantine-file <file> Quarantine file; quarantined flaky tests are marked in the report
+                           (default: ${DEFAULT_QUARANTINE_FILE})
+  --respect-quarantine     Exit 0 when every flaky test is quarantined
+  --shard <i/n>            Make only shard i of n's share of --runs, e.g. 3/8 (for CI matrix jobs;
+                           combine the reports with flaky merge)
   -f, --format <format>    Output format: json, text, minimal (default: json)
   -s, --stream             Stream progress events as newline-delimited JSON
   -v, --verbose            Enable verbose output
@@ -145,6 +898,51 @@ Examples:
   # Only flag tests failing >10% of the time as flaky
   flaky --test "npm test" --threshold 10
 
+  # Run 50 iterations, 4 at a time
+  flaky --test "npm test" --runs 50 --concurrency 4
+
+  # Stop as soon as flakiness is proven
+  flaky --test "npm test" --runs 50 --early-stop
+
+  # Statistical early stopping around a 10% threshold
+  flaky --test "npm test" --runs 200 --threshold 10 --early-stop sprt
+
+  # Run until 95% confident whether any test fails more than 5% of the time
+  flaky --test "npm test" --threshold 5 --confidence 95 --runs 300
+
+  # Re-run for as long as a 15 minute slot allows (at most 1000 runs)
+  flaky --test "npm test" --duration 15m
+
+  # Kill runs that hang for more than 2 minutes
+  flaky --test "npm test" --timeout 120000
+
+  # Per-test flakiness from JUnit XML reports
+  flaky --test "mvn test" --junit "target/surefire-reports/*.xml"
+
+  # Per-test flakiness for Jest or Vitest
+  flaky --test "npx jest --json" --parser jest-json
+  flaky --test "npx vitest run --reporter=json --outputFile=vitest.json" --parser jest-json --results vitest.json
+
+  # Per-test flakiness for Go (subtests included)
+  flaky --test "go test -json ./..." --runs 20
+
+  # Parse JUnit XML printed to stdout
+  flaky --test "./run-tests.sh --xml" --parser junit
+
+  # Record each detection and review a test's flakiness over the last week
+  flaky --test "npm test" --runs 20 --history-dir ${DEFAULT_HISTORY_DIR}
+  flaky history --test-name "login works" --since 7d
+
+  # Fail a pull request that makes tests flaky compared with main
+  flaky compare main.json pr.json
+
+  # Split 200 runs across 8 CI machines, then combine their reports
+  flaky --test "npm test" --runs 200 --shard 3/8 > shard-3.json
+  flaky merge shard-*.json --format text
+
+  # Don't block merges on known flaky tests (see flaky quarantine --help)
+  flaky --test "npm test" --runs 20 --respect-quarantine
+
   # Stream progress events (NDJSON)
   flaky --test "npm test" --stream
 
@@ -153,7 +951,7 @@ Examples:
 
 Exit Codes:
   0 - Detection completed successfully, no flakiness found
-  1 - Flakiness detected (tests failed inconsistently)
+  1 - Flakiness detected (tests failed inconsistently), or quarantine entries expired
   2 - Invalid arguments or execution error
 
 Library Usage:
@@ -190,13 +988,40 @@ See README.md for complete API documentation.`);
 // CLI entry point - only runs when executed directly
 async function main(): Promise<void> {
   const args = globalThis.process?.argv?.slice(2) ?? [];
-  const { config, showHelp } = parseArgs(args);
+
+  if (args[0] === 'history') {
+    await historyCommand(args.slice(1));
+    return;
+  }
+
+  if (args[0] === 'compare') {
+    compareCommand(args.slice(1));
+    return;
+  }
+
+  if (args[0] === 'merge') {
+    mergeCommand(args.slice(1));
+    return;
+  }
+
+  if (args[0] === 'quarantine') {
+    await quarantineCommand(args.slice(1));
+    return;
+  }
+
+  const { config, showHelp, error } = parseArgs(args);
 
   if (showHelp) {
     printHelp();
     return;
   }
 
+  if (error) {
+    console.error(`Error: ${error}`);
+    globalThis.process?.exit(2);
+    return;
+  }
+
   if (!config.testCommand) {
     console.error('Error: Test command is required');
     console.error('Use --test <command> to specify the test command');
@@ -213,7 +1038,30 @@ async function main(): Promise<void> {
     };
   }
 
+  config.quarantineFile ??= DEFAULT_QUARANTINE_FILE;
+
+  // Ctrl-C (or SIGTERM/SIGHUP from CI) stops detection and prints a partial report; a second
+  // signal exits immediately. Runs are spawned detached, so they never see these signals themselves.
+  const controller = new AbortController();
+  config.signal = controller.signal;
+  const onInterrupt = (signal: NodeJS.Signals): void => {
+    if (controller.signal.aborted) {
+      globalThis.process?.exit(130);
+      return;
+    }
+    const again = signal === 'SIGINT' ? 'press Ctrl-C again' : `send ${signal} again`;
+    console.error(`Interrupted: stopping test runs (${again} to exit immediately)`);
+    controller.abort();
+  };
+  const signals: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGHUP'];
+  for (const signal of signals) {
+    globalThis.process?.on(signal, onInterrupt);
+  }
+
   const report = await detectFlakiness(config);
+  for (const signal of signals) {
+    globalThis.process?.off(signal, onInterrupt);
+  }
 
   if (report.success) {
     // Output final report (unless streaming, which already emitted 'complete' event)
@@ -223,8 +1071,25 @@ async function main(): Promise<void> {
       console.log(output);
     }
 
-    // Exit with code 1 if flaky tests were found
-    if (report.flakyTests.length > 0) {
+    if (report.historyError) {
+      console.error(`Warning: Failed to record history: ${report.historyError}`);
+    }
+
+    // Exit with code 130 (interrupted) after a partial report
+    if (report.aborted) {
+      globalThis.process?.exit(130);
+    }
+
+    // Expired quarantine entries fail the run until they are renewed or removed
+    if (report.expiredQuarantine) {
+      const expired = report.expiredQuarantine.map((entry) => `${entry.test} (${entry.expires})`).join(', ');
+      console.error(`Error: Quarantine expired for ${expired}; fix these tests, or renew or remove their entries`);
+      globalThis.process?.exit(1);
+    }
+
+    // Exit with code 1 if flaky tests were found (quarantined ones don't count with --respect-quarantine)
+    const blocking = config.respectQuarantine ? report.flakyTests.filter((test) => !test.quarantined) : report.flakyTests;
+    if (blocking.length > 0) {
       globalThis.process?.exit(1);
     }
   } else {
@@ -0,0 +1,127 @@
+/**
+ * Merging of partial reports
+ *
+ * Combines the reports of detections split across processes or CI machines
+ * (e.g. 200 runs as 8 shards of 25) into one coherent report, as if a single
+ * detection had made every run.
+ */
+
+import { DetectionReport, MergeOptions, TestRunResult } from './types.js';
+import { buildReport, tallyTests } from './detector.js';
+import { createNormalizer } from './normalize.js';
+import { achievedConfidence } from './statistics.js';
+
+/**
+ * Merge partial reports into one report
+ *
+ * The runs of all reports are combined and every statistic is recomputed
+ * from them: passed/failed counts, flaky tests with their confidence
+ * intervals, failure clusters and diffs, exit codes and run durations. Each
+ * run records where it came from: `shard` (the report's shard index, or its
+ * 1-based position when it was not sharded, unless already set) and the
+ * `hostname` of the machine that produced the report. Run numbers are kept
+ * when they are unique across reports (e.g. from `--shard` detections);
+ * otherwise runs are renumbered in report order.
+ *
+ * The threshold is not part of a report, so pass the one the partial
+ * detections used. The confidence level defaults to the reports' target
+ * confidence, if any.
+ *
+ * @param reports - Partial reports (e.g. parsed from the JSON output of each shard)
+ * @param options - Threshold, confidence level and output normalization
+ * @returns Merged report
+ * @throws Error if there are no reports, a report failed, shards conflict or an option is invalid
+ *
+ * @example
+ * ```typescript
+ * const shards = files.map(file => JSON.parse(readFileSync(file, 'utf-8')));
+ * const report = mergeReports(shards, { threshold: 5 });
+ * console.log(`${report.flakyTests.length} flaky tests in ${report.totalRuns} runs`);
+ * ```
+ */
+export function mergeReports(reports: DetectionReport[], options: MergeOptions = {}): DetectionReport {
+  if (!Array.isArray(reports) || reports.length === 0) {
+    throw new Error('At least one report is required');
+  }
+  reports.forEach((report, index) => {
+    if (typeof report !== 'object' || report === null || !Array.isArray(report.runs)) {
+      throw new Error(`Report ${index + 1} is not a detection report`);
+    }
+    if (!report.success) {
+      throw new Error(`Report ${index + 1} failed: ${report.error ?? 'unknown error'}`);
+    }
+  });
+
+  const shards = new Map<number, number>();
+  let shardCount: number | undefined;
+  reports.forEach(({ shard }, index) => {
+    if (!shard) {
+      return;
+    }
+    shardCount ??= shard.count;
+    if (shard.count !== shardCount) {
+      throw new Error(`Report ${index + 1} is shard ${shard.index}/${shard.count}, but other reports split the runs ${shardCount} ways`);
+    }
+    const duplicate = shards.get(shard.index);
+    if (duplicate !== undefined) {
+      throw new Error(`Report ${index + 1} duplicates shard ${shard.index}/${shard.count} of report ${duplicate + 1}`);
+    }
+    shards.set(shard.index, index);
+  });
+
+  const { threshold = 0 } = options;
+  if (typeof threshold !== 'number' || !Number.isFinite(threshold) || threshold < 0 || threshold > 100) {
+    throw new Error('Threshold must be between 0 and 100');
+  }
+  const confidence = options.confidence ?? reports[0]!.targetConfidence;
+  if (confidence !== undefined && (typeof confidence !== 'number' || !Number.isFinite(confidence) || confidence < 50 || confidence >= 100)) {
+    throw new Error('Confidence must be a percentage from 50 up to (not including) 100');
+  }
+  const normalize = createNormalizer(options.normalize);
+
+  let runs: TestRunResult[] = reports.flatMap((report, index) =>
+    report.runs.map((run) => {
+      const merged: TestRunResult = { ...run };
+      if (merged.hostname === undefined && report.hostname !== undefined) {
+        merged.hostname = report.hostname;
+      }
+      merged.shard ??= report.shard?.index ?? index + 1;
+      return merged;
+    })
+  );
+
+  const runNumbers = new Set(runs.map((run) => run.runNumber));
+  if (runs.every((run) => run.runNumber !== undefined) && runNumbers.size === runs.length) {
+    runs.sort((a, b) => a.runNumber! - b.runNumber!);
+  } else {
+    runs = runs.map((run, index) => ({ ...run, runNumber: index + 1 }));
+  }
+
+  const report = buildReport(runs, threshold, confidence, normalize);
+
+  if (reports.some((partial) => partial.aborted)) {
+    report.aborted = true;
+  }
+
+  if (reports.some((partial) => partial.stoppedEarly)) {
+    report.stoppedEarly = true;
+  }
+
+  if (confidence !== undefined) {
+    report.targetConfidence = confidence;
+    report.confidence = achievedConfidence(tallyTests(runs), threshold);
+  }
+
+  if (reports.some((partial) => partial.timedOutRuns !== undefined)) {
+    report.timedOutRuns = runs.filter((run) => run.timedOut === true).length;
+  }
+
+  const framework = reports.find((partial) => partial.framework !== undefined)?.framework;
+  if (framework) {
+    report.framework = framework;
+  }
+
+  report.mergedReports = reports.length;
+
+  return report;
+}
@@ -0,0 +1,136 @@
+/**
+ * Output normalization pipeline
+ *
+ * Replaces run-specific details (timestamps, durations, UUIDs, addresses,
+ * PIDs, ports, temp paths) with placeholders so that the output of two runs
+ * only differs where their behavior did. Used before clustering failures and
+ * diffing outputs; user-supplied regex replacements run after the built-ins.
+ */
+
+import { BuiltinNormalization, NormalizationRule, NormalizeOptions } from './types.js';
+
+/**
+ * Function that normalizes test output
+ */
+export type Normalizer = (text: string) => string;
+
+/**
+ * Built-in rules, applied in this order (later rules see earlier placeholders)
+ */
+const BUILTIN_RULES: Record<BuiltinNormalization, Array<[RegExp, string]>> = {
+  timestamps: [
+    // ISO 8601 timestamps: 2026-01-08T12:34:56.789Z
+    [/\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g, '<timestamp>'],
+    // Times of day: 12:34:56.789
+    [/\b\d{2}:\d{2}:\d{2}(?:[.,]\d+)?\b/g, '<time>'],
+  ],
+  durations: [
+    // TAP and JSON duration fields: duration_ms: 12.345, "duration": 120
+    [/\b(duration(?:_ms)?"?\s*[:=]\s*)\d+(?:\.\d+)?/gi, '$1<duration>'],
+    // Durations with a unit: 12ms, 1.5s, (340 ms), 2 seconds
+    [/\b\d+(?:\.\d+)?\s?(?:ns|µs|us|ms|s|secs?|seconds?|mins?|minutes?)\b/g, '<duration>'],
+  ],
+  uuids: [[/\b[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}\b/g, '<uuid>']],
+  addresses: [[/\b0x[0-9a-fA-F]+\b/g, '<addr>']],
+  pids: [[/\b(pid|process)([\s:=#]*)\d+/gi, '$1$2<pid>']],
+  ports: [
+    // Ports on local and numeric hosts, and in URLs: localhost:54321, 127.0.0.1:8080, http://db:5432
+    [/(localhost|\b\d{1,3}(?:\.\d{1,3}){3}|\[[0-9a-fA-F:]*\]|:\/\/[\w.-]+):\d{1,5}\b/g, '$1:<port>'],
+    [/\b(port)([\s:=]*)\d+/gi, '$1$2<port>'],
+  ],
+  'temp-dirs': [
+    // Temporary paths (POSIX, macOS and Windows)
+    [/(?:\/private)?\/(?:tmp|var\/tmp|var\/folders)\/[^\s'"`:,)]*/g, '<tmp>'],
+    [/[A-Za-z]:\\(?:[^\\\s]+\\)*?(?:Temp|tmp)\\[^\s'"`:,)]*/gi, '<tmp>'],
+  ],
+};
+
+/**
+ * Names of the built-in normalization rules, in the order they are applied
+ */
+export const BUILTIN_NORMALIZATIONS = Object.keys(BUILTIN_RULES) as BuiltinNormalization[];
+
+/**
+ * Compile a user-supplied rule (string patterns get the global flag)
+ */
+function compileRule(rule: NormalizationRule, index: number): [RegExp, string] {
+  if (!rule || typeof rule.replacement !== 'string') {
+    throw new Error(`Normalization rule ${index + 1} must have a pattern and a string replacement`);
+  }
+  if (rule.pattern instanceof RegExp) {
+    const flags = rule.pattern.flags.includes('g') ? rule.pattern.flags : `${rule.pattern.flags}g`;
+    return [new RegExp(rule.pattern.source, flags), rule.replacement];
+  }
+  if (typeof rule.pattern !== 'string' || rule.pattern === '') {
+    throw new Error(`Normalization rule ${index + 1} must have a pattern and a string replacement`);
+  }
+  try {
+    return [new RegExp(rule.pattern, 'g'), rule.replacement];
+  } catch (error) {
+    throw new Error(`Normalization rule ${index + 1} has an invalid pattern: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Build a normalizer from options
+ *
+ * @param options - Built-in rules to use (default: all) and extra regex replacements
+ * @returns Function that normalizes a string
+ * @throws Error for unknown built-in rules and invalid patterns
+ *
+ * @example
+ * ```typescript
+ * const normalize = createNormalizer({
+ *   builtins: ['timestamps', 'uuids'],
+ *   rules: [{ pattern: 'seed=\\d+', replacement: 'seed=<seed>' }],
+ * });
+ * normalize('seed=42 at 2026-01-08T12:00:00Z'); // 'seed=<seed> at <timestamp>'
+ * ```
+ */
+export function createNormalizer(options: NormalizeOptions = {}): Normalizer {
+  const { builtins = true, rules = [] } = options;
+
+  let builtinNames: BuiltinNormalization[];
+  if (builtins === true) {
+    builtinNames = BUILTIN_NORMALIZATIONS;
+  } else if (builtins === false) {
+    builtinNames = [];
+  } else if (Array.isArray(builtins)) {
+    const unknown = builtins.find((name) => !BUILTIN_NORMALIZATIONS.includes(name));
+    if (unknown !== undefined) {
+      throw new Error(`Unknown normalization rule "${unknown}" (available: ${BUILTIN_NORMALIZATIONS.join(', ')})`);
+    }
+    // Built-ins always run in their own order
+    builtinNames = BUILTIN_NORMALIZATIONS.filter((name) => builtins.includes(name));
+  } else {
+    throw new Error('Normalization builtins must be true, false or a list of rule names');
+  }
+
+  if (!Array.isArray(rules)) {
+    throw new Error('Normalization rules must be an array');
+  }
+
+  const pipeline = [...builtinNames.flatMap((name) => BUILTIN_RULES[name]), ...rules.map(compileRule)];
+
+  return (text) => pipeline.reduce((normalized, [pattern, replacement]) => normalized.replace(pattern, replacement), text);
+}
+
+const defaultNormalizer = createNormalizer();
+
+/**
+ * Remove run-specific details from test output
+ *
+ * @param text - Output of a test run
+ * @param options - Normalization options (default: every built-in rule, no extra rules)
+ * @returns Output with run-specific details replaced by placeholders
+ * @throws Error for unknown built-in rules and invalid patterns
+ *
+ * @example
+ * ```typescript
+ * normalizeOutput('Error at 2026-01-08T12:34:56Z: connect ECONNREFUSED 127.0.0.1:54321');
+ * // 'Error at <timestamp>: connect ECONNREFUSED 127.0.0.1:<port>'
+ * ```
+ */
+export function normalizeOutput(text: string, options?: NormalizeOptions): string {
+  return options ? createNormalizer(options)(text) : defaultNormalizer(text);
+}
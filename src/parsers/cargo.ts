@@ -0,0 +1,76 @@
+/**
+ * `cargo test` text output parser
+ *
+ * Reads the libtest lines printed by `cargo test`:
+ * - `test tests::adds ... ok`
+ * - `test tests::divides ... FAILED`
+ * - `test tests::slow ... ignored` (optionally `ignored, <reason>`)
+ * - doc tests: `test src/lib.rs - add (line 5) ... ok`
+ */
+
+import { ResultParser, TestCaseOutcome, TestCaseStatus } from '../types.js';
+
+const TEST_LINE_PATTERN = /^test (.+?) \.\.\. (ok|FAILED|ignored)\b/;
+const RESULT_PATTERN = /^test result: (ok|FAILED)\./m;
+
+const STATUS: Record<string, TestCaseStatus> = {
+  ok: 'passed',
+  FAILED: 'failed',
+  ignored: 'skipped',
+};
+
+/**
+ * Check whether output comes from `cargo test`
+ *
+ * @param output - Raw test command output
+ * @returns True if the output contains a libtest result line
+ */
+export function looksLikeCargoTest(output: string): boolean {
+  return RESULT_PATTERN.test(output);
+}
+
+/**
+ * Parse `cargo test` output into individual test outcomes
+ *
+ * Tests are named as cargo prints them (e.g. `tests::adds`). A name reported
+ * by more than one test binary appears once, failing if any report failed.
+ *
+ * @param output - `cargo test` stdout
+ * @returns Test outcomes in the order first reported (empty if none found)
+ *
+ * @example
+ * ```typescript
+ * const outcomes = parseCargoTest('test tests::adds ... ok\ntest tests::divides ... FAILED');
+ * // [{ name: 'tests::adds', status: 'passed' }, { name: 'tests::divides', status: 'failed' }]
+ * ```
+ */
+export function parseCargoTest(output: string): TestCaseOutcome[] {
+  const outcomes = new Map<string, TestCaseOutcome>();
+
+  for (const line of output.split(/\r?\n/)) {
+    const match = TEST_LINE_PATTERN.exec(line.trim());
+    if (!match) {
+      continue;
+    }
+
+    const name = match[1]!;
+    const status = STATUS[match[2]!]!;
+    const existing = outcomes.get(name);
+    if (!existing) {
+      outcomes.set(name, { name, status });
+    } else if (status === 'failed' || existing.status === 'skipped') {
+      existing.status = status;
+    }
+  }
+
+  return [...outcomes.values()];
+}
+
+/**
+ * Built-in parser for `cargo test` output on stdout
+ */
+export const cargoParser: ResultParser = {
+  name: 'cargo',
+  parse: (run) => parseCargoTest(run.stdout),
+  matches: (run) => looksLikeCargoTest(run.stdout),
+};
@@ -0,0 +1,163 @@
+/**
+ * `go test -json` event stream parser
+ *
+ * Each line of `go test -json` output is a JSON event with an `Action`
+ * (`start`, `run`, `pause`, `cont`, `output`, `pass`, `fail`, `skip`, `bench`),
+ * a `Package` and, for test-level events, a `Test` name. Subtests use
+ * Go's native `TestFoo/case_1` naming.
+ */
+
+import { ResultParser, TestCaseOutcome, TestCaseStatus } from '../types.js';
+
+/**
+ * Single `go test -json` event
+ */
+interface GoTestEvent {
+  Action?: string;
+  Package?: string;
+  Test?: string;
+  Elapsed?: number;
+}
+
+/**
+ * Test seen in the event stream, with whether a final action arrived
+ */
+interface TrackedTest extends TestCaseOutcome {
+  finished: boolean;
+}
+
+const EVENT_PATTERN = /^\s*\{[^\n]*"Action"\s*:\s*"[a-z]+"[^\n]*"Package"\s*:/m;
+
+/**
+ * Check whether output contains a `go test -json` event stream
+ *
+ * @param output - Raw test command output
+ * @returns True if the output appears to contain Go test events
+ */
+export function looksLikeGoTestJSON(output: string): boolean {
+  return EVENT_PATTERN.test(output);
+}
+
+/**
+ * Parse `go test -json` output into individual test outcomes
+ *
+ * Tests are named `<package>.<test>` (e.g. `example.com/api.TestFetch/timeout`).
+ * Only leaf tests are reported; a parent test that failed while all of its
+ * subtests passed is reported itself. Tests that started but never finished
+ * in a failed package (panic, `-timeout`) count as failed, and a package
+ * that failed without any failing test (e.g. build failure) is reported
+ * as a failed entry named after the package.
+ *
+ * @param output - `go test -json` output (non-JSON lines are ignored)
+ * @returns Test outcomes in the order tests started (empty if no events found)
+ *
+ * @example
+ * ```typescript
+ * const outcomes = parseGoTestJSON([
+ *   '{"Action":"run","Package":"example.com/api","Test":"TestFetch"}',
+ *   '{"Action":"fail","Package":"example.com/api","Test":"TestFetch","Elapsed":0.25}',
+ * ].join('\n'));
+ * // [{ name: 'example.com/api.TestFetch', status: 'failed', durationMs: 250 }]
+ * ```
+ */
+export function parseGoTestJSON(output: string): TestCaseOutcome[] {
+  if (!output || !looksLikeGoTestJSON(output)) {
+    return [];
+  }
+
+  // Keyed by package, then test name (insertion order = start order)
+  const packages = new Map<string, Map<string, TrackedTest>>();
+  const failedPackages = new Set<string>();
+
+  for (const line of output.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{')) {
+      continue;
+    }
+
+    let event: GoTestEvent;
+    try {
+      event = JSON.parse(trimmed) as GoTestEvent;
+    } catch {
+      continue; // Not an event line
+    }
+
+    const { Action: action, Package: pkg, Test: testName } = event;
+    if (typeof action !== 'string' || typeof pkg !== 'string') {
+      continue;
+    }
+
+    const tests = packages.get(pkg) ?? new Map<string, TrackedTest>();
+    packages.set(pkg, tests);
+
+    if (typeof testName !== 'string' || testName === '') {
+      if (action === 'fail') {
+        failedPackages.add(pkg);
+      }
+      continue;
+    }
+
+    if (action === 'run' && !tests.has(testName)) {
+      tests.set(testName, { name: `${pkg}.${testName}`, status: 'passed', finished: false });
+    } else if (action === 'pass' || action === 'fail' || action === 'skip') {
+      const status: TestCaseStatus = action === 'pass' ? 'passed' : action === 'fail' ? 'failed' : 'skipped';
+      const test: TrackedTest = tests.get(testName) ?? { name: `${pkg}.${testName}`, status, finished: true };
+      test.status = status;
+      test.finished = true;
+      if (typeof event.Elapsed === 'number' && Number.isFinite(event.Elapsed)) {
+        test.durationMs = event.Elapsed * 1000;
+      }
+      tests.set(testName, test);
+    }
+  }
+
+  const outcomes: TestCaseOutcome[] = [];
+
+  for (const [pkg, tests] of packages) {
+    const packageFailed = failedPackages.has(pkg);
+    const names = [...tests.keys()];
+    let anyTestFailed = false;
+
+    for (const [testName, test] of tests) {
+      const { finished, ...outcome } = test;
+      if (!finished) {
+        if (!packageFailed) {
+          continue; // Still running when output ended - no verdict
+        }
+        outcome.status = 'failed';
+      }
+
+      const subtests = names.filter((name) => name.startsWith(`${testName}/`));
+      const subtestFailed = subtests.some((name) => {
+        const subtest = tests.get(name)!;
+        return subtest.status === 'failed' || (!subtest.finished && packageFailed);
+      });
+
+      // Parents are only reported for failures their subtests don't explain
+      if (subtests.length > 0 && (outcome.status !== 'failed' || subtestFailed)) {
+        continue;
+      }
+
+      if (outcome.status === 'failed') {
+        anyTestFailed = true;
+      }
+      outcomes.push(outcome);
+    }
+
+    // Package failed without any failing test (e.g. build failure, TestMain exit)
+    if (packageFailed && !anyTestFailed) {
+      outcomes.push({ name: pkg, status: 'failed' });
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Built-in parser for `go test -json` output on stdout
+ */
+export const goJsonParser: ResultParser = {
+  name: 'go-json',
+  parse: (run) => parseGoTestJSON(run.stdout),
+  matches: (run) => looksLikeGoTestJSON(run.stdout),
+};
@@ -0,0 +1,113 @@
+/**
+ * Result parser registry
+ *
+ * Built-in parsers are registered at load time. Custom parsers can be added
+ * with registerParser() and selected by name like the built-ins.
+ */
+
+import { ResultParser, TestRunResult } from '../types.js';
+import { tapParser } from './tap.js';
+import { junitParser } from './junit.js';
+import { jestJsonParser } from './jest-json.js';
+import { goJsonParser } from './go-json.js';
+import { pytestParser } from './pytest.js';
+import { cargoParser } from './cargo.js';
+
+const registry = new Map<string, ResultParser>();
+
+/**
+ * Register a result parser so it can be selected by name
+ *
+ * Registering a parser under an existing name replaces the previous parser.
+ *
+ * @param parser - Parser to register
+ * @throws Error if the parser has no name or no parse function
+ *
+ * @example
+ * ```typescript
+ * import { registerParser, detect } from 'test-flakiness-detector';
+ *
+ * registerParser({
+ *   name: 'in-house',
+ *   parse: (run) => run.stdout.split('\n')
+ *     .map(line => /^(PASS|FAIL) (.+)$/.exec(line))
+ *     .filter(match => match !== null)
+ *     .map(match => ({ name: match[2], status: match[1] === 'PASS' ? 'passed' : 'failed' })),
+ * });
+ *
+ * const result = await detect({ test: './run-tests.sh', parser: 'in-house' });
+ * ```
+ */
+export function registerParser(parser: ResultParser): void {
+  if (!parser || typeof parser.name !== 'string' || parser.name.trim() === '') {
+    throw new Error('Parser name must be a non-empty string');
+  }
+  if (typeof parser.parse !== 'function') {
+    throw new Error(`Parser "${parser.name}" must have a parse function`);
+  }
+  registry.set(parser.name, parser);
+}
+
+/**
+ * Look up a registered parser by name
+ *
+ * @param name - Parser name
+ * @returns The parser, or undefined if none is registered under that name
+ */
+export function getParser(name: string): ResultParser | undefined {
+  return registry.get(name);
+}
+
+/**
+ * List the names of all registered parsers
+ *
+ * @returns Parser names in registration order
+ */
+export function listParsers(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Resolve a parser option to a parser instance
+ *
+ * @param parser - Parser name or instance
+ * @returns The parser, or undefined if the name is not registered or the object is invalid
+ */
+export function resolveParser(parser: string | ResultParser): ResultParser | undefined {
+  if (typeof parser === 'string') {
+    return registry.get(parser);
+  }
+  if (parser && typeof parser === 'object' && typeof parser.parse === 'function') {
+    return parser;
+  }
+  return undefined;
+}
+
+/**
+ * Detect which registered parser understands a run's output
+ *
+ * Parsers are asked in registration order (built-ins first); parsers
+ * without a `matches` function are never selected automatically.
+ *
+ * @param run - Completed test run
+ * @returns The first matching parser, or undefined if none recognized the output
+ */
+export function detectParser(run: TestRunResult): ResultParser | undefined {
+  for (const parser of registry.values()) {
+    try {
+      if (parser.matches?.(run)) {
+        return parser;
+      }
+    } catch {
+      // Ignore errors from parser - treat as not matching
+    }
+  }
+  return undefined;
+}
+
+registerParser(tapParser);
+registerParser(junitParser);
+registerParser(jestJsonParser);
+registerParser(goJsonParser);
+registerParser(pytestParser);
+registerParser(cargoParser);
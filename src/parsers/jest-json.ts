@@ -0,0 +1,167 @@
+/**
+ * Jest / Vitest JSON reporter parser
+ *
+ * Supports the JSON written by `jest --json [--outputFile <file>]` and
+ * `vitest run --reporter=json [--outputFile <file>]`, which share the shape:
+ * `testResults[].assertionResults[]` with `ancestorTitles`, `title`,
+ * `status` and `duration`.
+ */
+
+import { relative } from 'node:path';
+import { ResultParser, TestCaseOutcome } from '../types.js';
+import { readResultFiles } from './result-files.js';
+import { SUBTEST_SEPARATOR } from './tap.js';
+
+/**
+ * Single test entry in a Jest/Vitest JSON report
+ */
+interface JestAssertionResult {
+  ancestorTitles?: string[];
+  title?: string;
+  fullName?: string;
+  status?: string;
+  duration?: number | null;
+}
+
+/**
+ * Test file entry in a Jest/Vitest JSON report
+ */
+interface JestFileResult {
+  name?: string;
+  status?: string;
+  assertionResults?: JestAssertionResult[];
+}
+
+/**
+ * Top-level Jest/Vitest JSON report
+ */
+interface JestReport {
+  testResults?: JestFileResult[];
+}
+
+const REPORT_MARKER_PATTERN = /"testResults"\s*:/;
+const SUMMARY_MARKER_PATTERN = /"numTotalTests"\s*:/;
+
+/**
+ * Maximum number of places the report may start at that are tried
+ */
+const MAX_REPORT_STARTS = 5;
+
+/**
+ * Check whether output contains a Jest/Vitest JSON report
+ *
+ * @param output - Raw test command output
+ * @returns True if the output appears to contain a JSON report
+ */
+export function looksLikeJestJSON(output: string): boolean {
+  return REPORT_MARKER_PATTERN.test(output) && SUMMARY_MARKER_PATTERN.test(output);
+}
+
+/**
+ * Extract the JSON report from output that may contain other text
+ *
+ * Tries the lines that start a JSON object before the first `"testResults"`
+ * key, nearest first (npm scripts and console logging often surround the
+ * report). Each attempt parses the rest of the output, so only a few are made:
+ * truncated output would otherwise take quadratic time.
+ */
+function extractReport(output: string): JestReport | undefined {
+  const marker = output.search(REPORT_MARKER_PATTERN);
+  const end = output.lastIndexOf('}') + 1;
+  const starts = [...output.slice(0, marker).matchAll(/^[ \t]*\{/gm)].map((match) => match.index ?? 0);
+
+  for (const start of starts.reverse().slice(0, MAX_REPORT_STARTS)) {
+    const candidate = output.slice(start, end).trim();
+    try {
+      const parsed: unknown = JSON.parse(candidate);
+      if (parsed && typeof parsed === 'object' && Array.isArray((parsed as JestReport).testResults)) {
+        return parsed as JestReport;
+      }
+    } catch {
+      // Not valid JSON - try the next candidate
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Convert a report into test outcomes
+ */
+function toOutcomes(report: JestReport): TestCaseOutcome[] {
+  const outcomes: TestCaseOutcome[] = [];
+
+  for (const file of report.testResults ?? []) {
+    const assertions = Array.isArray(file.assertionResults) ? file.assertionResults : [];
+
+    for (const assertion of assertions) {
+      const titles = [...(assertion.ancestorTitles ?? []), assertion.title ?? ''].filter((title) => title !== '');
+      const name = titles.length > 0 ? titles.join(SUBTEST_SEPARATOR) : (assertion.fullName ?? '');
+
+      const outcome: TestCaseOutcome = {
+        name,
+        status: assertion.status === 'passed' ? 'passed' : assertion.status === 'failed' ? 'failed' : 'skipped',
+      };
+      if (typeof assertion.duration === 'number' && Number.isFinite(assertion.duration)) {
+        outcome.durationMs = assertion.duration;
+      }
+      outcomes.push(outcome);
+    }
+
+    // Test file failed without any failing test (e.g. syntax error, failing hook)
+    if (file.status === 'failed' && !assertions.some((assertion) => assertion.status === 'failed')) {
+      outcomes.push({
+        name: file.name ? relative(process.cwd(), file.name).replace(/\\/g, '/') : 'unknown test file',
+        status: 'failed',
+      });
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Parse a Jest/Vitest JSON report into individual test outcomes
+ *
+ * Tests are named by joining `ancestorTitles` and `title` with " > ".
+ * Pending, skipped and todo tests are reported as skipped. A test file that
+ * failed without any failing test is reported as a failed entry named after
+ * the file (relative to the working directory).
+ *
+ * @param output - JSON report, optionally surrounded by other output
+ * @returns Test outcomes in report order (empty if no report found)
+ *
+ * @example
+ * ```typescript
+ * const outcomes = parseJestJSON(JSON.stringify({
+ *   numTotalTests: 1,
+ *   testResults: [{
+ *     name: '/repo/math.test.js',
+ *     assertionResults: [{ ancestorTitles: ['math'], title: 'adds', status: 'passed', duration: 3 }],
+ *   }],
+ * }));
+ * // [{ name: 'math > adds', status: 'passed', durationMs: 3 }]
+ * ```
+ */
+export function parseJestJSON(output: string): TestCaseOutcome[] {
+  if (!output || !REPORT_MARKER_PATTERN.test(output)) {
+    return [];
+  }
+
+  const report = extractReport(output);
+  return report ? toOutcomes(report) : [];
+}
+
+/**
+ * Built-in parser for Jest / Vitest JSON reports
+ *
+ * Reads the configured result files (`--outputFile`), or the run's stdout.
+ */
+export const jestJsonParser: ResultParser = {
+  name: 'jest-json',
+  parse: (run, context) =>
+    context.resultFiles
+      ? readResultFiles(context.resultFiles, context.startedAt, context.resultFilesBefore).flatMap((json) => parseJestJSON(json))
+      : parseJestJSON(run.stdout),
+  matches: (run) => looksLikeJestJSON(run.stdout),
+};
@@ -0,0 +1,152 @@
+/**
+ * JUnit XML result file parser
+ *
+ * Supports the JUnit XML dialect written by Maven Surefire, Gradle,
+ * pytest (`--junitxml`), go-junit-report, jest-junit and most CI tools:
+ * - `<testcase classname="..." name="..." time="...">`
+ * - `<failure>` and `<error>` children mark a test as failed
+ * - `<skipped>` children mark a test as skipped
+ */
+
+import { readResultFiles } from './result-files.js';
+import { ResultFileSnapshot, ResultParser, TestCaseOutcome } from '../types.js';
+
+/**
+ * Matches comments, CDATA sections, declarations and element tags
+ * (attribute values may contain `>`, so attributes are matched explicitly)
+ */
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<![^>]*>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+
+const TESTSUITE_PATTERN = /<testsuites?[\s>]/;
+
+const ATTRIBUTE_PATTERN = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Decode XML character and entity references
+ */
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[ref] ?? match;
+  });
+}
+
+/**
+ * Parse the attribute list of an element tag
+ */
+function parseAttributes(source: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes.set(match[1]!, decodeEntities(match[2] ?? match[3] ?? ''));
+  }
+  return attributes;
+}
+
+/**
+ * Parse JUnit XML into individual test outcomes
+ *
+ * Tests are named `classname.name` (or just `name` when no classname is given).
+ * Durations come from the `time` attribute (seconds).
+ *
+ * @param xml - JUnit XML document
+ * @returns Test outcomes in document order (empty if no test cases found)
+ *
+ * @example
+ * ```typescript
+ * const outcomes = parseJUnitXML(`
+ *   <testsuite name="math">
+ *     <testcase classname="MathTest" name="adds" time="0.01"/>
+ *     <testcase classname="MathTest" name="divides"><failure message="boom"/></testcase>
+ *   </testsuite>
+ * `);
+ * // [{ name: 'MathTest.adds', status: 'passed', durationMs: 10 },
+ * //  { name: 'MathTest.divides', status: 'failed' }]
+ * ```
+ */
+export function parseJUnitXML(xml: string): TestCaseOutcome[] {
+  const outcomes: TestCaseOutcome[] = [];
+  let current: TestCaseOutcome | undefined;
+
+  for (const match of xml.matchAll(TOKEN_PATTERN)) {
+    const [, closing, tagName, attributeSource, selfClosing] = match;
+    if (!tagName) {
+      continue; // Comment, CDATA or declaration
+    }
+
+    const element = tagName.toLowerCase();
+
+    if (element === 'testcase') {
+      if (closing) {
+        if (current) {
+          outcomes.push(current);
+          current = undefined;
+        }
+        continue;
+      }
+
+      const attributes = parseAttributes(attributeSource ?? '');
+      const name = attributes.get('name') ?? '';
+      const classname = attributes.get('classname');
+      current = {
+        name: classname ? `${classname}.${name}` : name,
+        status: 'passed',
+      };
+
+      const time = parseFloat(attributes.get('time') ?? '');
+      if (Number.isFinite(time)) {
+        current.durationMs = time * 1000;
+      }
+
+      if (selfClosing) {
+        outcomes.push(current);
+        current = undefined;
+      }
+    } else if (current && !closing) {
+      if (element === 'failure' || element === 'error') {
+        current.status = 'failed';
+      } else if (element === 'skipped' && current.status !== 'failed') {
+        current.status = 'skipped';
+      }
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Read and parse JUnit XML files written by a test run
+ *
+ * @param pattern - Glob pattern locating the JUnit XML files
+ * @param since - Run start time (epoch milliseconds); older files are ignored
+ * @param before - Result files that existed before the run; unchanged ones are ignored instead
+ * @returns Test outcomes from all matching files
+ */
+export function readJUnitResults(pattern: string, since: number, before?: ResultFileSnapshot): TestCaseOutcome[] {
+  return readResultFiles(pattern, since, before).flatMap((xml) => parseJUnitXML(xml));
+}
+
+/**
+ * Built-in parser for JUnit XML
+ *
+ * Reads the configured result files, or the run's stdout when none are configured.
+ */
+export const junitParser: ResultParser = {
+  name: 'junit',
+  parse: (run, context) =>
+    context.resultFiles
+      ? readJUnitResults(context.resultFiles, context.startedAt, context.resultFilesBefore)
+      : parseJUnitXML(run.stdout),
+  matches: (run) => TESTSUITE_PATTERN.test(run.stdout),
+};
@@ -0,0 +1,103 @@
+/**
+ * pytest text output parser
+ *
+ * Reads plain pytest output, so no reporter plugin is required:
+ * - `-v` lines: `tests/test_api.py::test_fetch PASSED [ 50%]`
+ * - `-rA` short test summary lines: `FAILED tests/test_api.py::test_fetch - AssertionError`
+ * - pytest-xdist lines: `[gw0] [ 50%] PASSED tests/test_api.py::test_fetch`
+ */
+
+import { ResultParser, TestCaseOutcome, TestCaseStatus } from '../types.js';
+
+/**
+ * pytest node id: `path::Class::test[params]` (params may contain spaces)
+ */
+const NODE_ID = '([^\\s:]+(?:::[^\\s:[]+)+(?:\\[[^\\]]*\\])?)';
+const OUTCOME = '(PASSED|FAILED|ERROR|SKIPPED|XFAIL|XPASS)';
+
+const VERBOSE_PATTERN = new RegExp(`^${NODE_ID}\\s+${OUTCOME}\\b`);
+const SUMMARY_PATTERN = new RegExp(`^(?:\\[gw\\d+\\]\\s+(?:\\[\\s*\\d+%\\]\\s+)?)?${OUTCOME}\\s+${NODE_ID}`);
+const SESSION_PATTERN = /^=+ test session starts =+\s*$/m;
+
+/**
+ * Map a pytest outcome word to a test status
+ *
+ * Expected failures (XFAIL) count as skipped; unexpected passes (XPASS) as passed.
+ */
+const STATUS: Record<string, TestCaseStatus> = {
+  PASSED: 'passed',
+  XPASS: 'passed',
+  FAILED: 'failed',
+  ERROR: 'failed',
+  SKIPPED: 'skipped',
+  XFAIL: 'skipped',
+};
+
+/**
+ * Check whether output comes from pytest
+ *
+ * @param output - Raw test command output
+ * @returns True if the output contains a pytest session header
+ */
+export function looksLikePytest(output: string): boolean {
+  return SESSION_PATTERN.test(output);
+}
+
+/**
+ * Parse pytest output into individual test outcomes
+ *
+ * Tests are named by their pytest node id. A test reported more than once
+ * (e.g. by both `-v` and `-rA`, or a teardown ERROR after PASSED) appears
+ * once, failing if any report failed.
+ *
+ * @param output - pytest stdout
+ * @returns Test outcomes in the order first reported (empty if none found)
+ *
+ * @example
+ * ```typescript
+ * const outcomes = parsePytest('tests/test_api.py::test_fetch FAILED [100%]');
+ * // [{ name: 'tests/test_api.py::test_fetch', status: 'failed' }]
+ * ```
+ */
+export function parsePytest(output: string): TestCaseOutcome[] {
+  const outcomes = new Map<string, TestCaseOutcome>();
+
+  for (const line of output.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    let name: string | undefined;
+    let word: string | undefined;
+
+    const verbose = VERBOSE_PATTERN.exec(trimmed);
+    if (verbose) {
+      [, name, word] = verbose;
+    } else {
+      const summary = SUMMARY_PATTERN.exec(trimmed);
+      if (summary) {
+        [, word, name] = summary;
+      }
+    }
+
+    if (!name || !word) {
+      continue;
+    }
+
+    const status = STATUS[word]!;
+    const existing = outcomes.get(name);
+    if (!existing) {
+      outcomes.set(name, { name, status });
+    } else if (status === 'failed' || existing.status === 'skipped') {
+      existing.status = status;
+    }
+  }
+
+  return [...outcomes.values()];
+}
+
+/**
+ * Built-in parser for pytest text output on stdout
+ */
+export const pytestParser: ResultParser = {
+  name: 'pytest',
+  parse: (run) => parsePytest(run.stdout),
+  matches: (run) => looksLikePytest(run.stdout),
+};
@@ -0,0 +1,64 @@
+/**
+ * Result file collection for file-based parsers
+ */
+
+import { readFileSync, statSync } from 'node:fs';
+import { expandGlob } from '../glob.js';
+import { ResultFileSnapshot } from '../types.js';
+
+/**
+ * Record the modification time and size of the result files that exist now
+ *
+ * Taken before each run, so that files the run leaves untouched (e.g. the
+ * report of an earlier run when this one crashed) are not attributed to it.
+ *
+ * @param pattern - Glob pattern locating the result files
+ * @returns Modification time and size of each matching file
+ */
+export function snapshotResultFiles(pattern: string): ResultFileSnapshot {
+  const snapshot: ResultFileSnapshot = new Map();
+  for (const file of expandGlob(pattern)) {
+    try {
+      const { mtimeMs, size } = statSync(file);
+      snapshot.set(file, { mtimeMs, size });
+    } catch {
+      // File vanished - it cannot be stale
+    }
+  }
+  return snapshot;
+}
+
+/**
+ * Read result files written by a test run
+ *
+ * Files are read immediately so that a later run cannot overwrite them
+ * before they are parsed. With a snapshot taken before the run, only files
+ * the run created or changed are read. Without one, files last modified
+ * before the run started are ignored (to the second, for filesystems that
+ * store modification times with 1s resolution).
+ *
+ * @param pattern - Glob pattern locating the result files
+ * @param since - Run start time (epoch milliseconds)
+ * @param before - Result files that existed before the run started
+ * @returns Contents of all matching files, in path order
+ */
+export function readResultFiles(pattern: string, since: number, before?: ResultFileSnapshot): string[] {
+  const cutoff = Math.floor(since / 1000) * 1000;
+  const contents: string[] = [];
+
+  for (const file of expandGlob(pattern)) {
+    try {
+      const { mtimeMs, size } = statSync(file);
+      const previous = before?.get(file);
+      const stale = before ? previous !== undefined && previous.mtimeMs === mtimeMs && previous.size === size : mtimeMs < cutoff;
+      if (stale) {
+        continue;
+      }
+      contents.push(readFileSync(file, 'utf-8'));
+    } catch {
+      // File vanished or is unreadable - skip it
+    }
+  }
+
+  return contents;
+}
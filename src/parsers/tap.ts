@@ -0,0 +1,205 @@
+/**
+ * TAP (Test Anything Protocol) output parser
+ *
+ * Supports TAP version 13 and 14 as emitted by node:test, tape and node-tap:
+ * - `ok` / `not ok` test points with optional numbers and descriptions
+ * - `# SKIP` and `# TODO` directives (both treated as skipped)
+ * - Indented subtests, with or without `# Subtest:` headers
+ * - YAML diagnostic blocks (`duration_ms` is read as the test duration)
+ */
+
+import { ResultParser, TestCaseOutcome, TestCaseStatus } from '../types.js';
+
+/**
+ * Separator used when joining parent and subtest names
+ */
+export const SUBTEST_SEPARATOR = ' > ';
+
+const VERSION_PATTERN = /^TAP version \d+\s*$/m;
+const PLAN_PATTERN = /^\s*1\.\.\d+/m;
+const TEST_POINT_PATTERN = /^(not ok|ok)\b\s*(\d+)?\s*(?:-\s*)?(.*)$/;
+const SUBTEST_PATTERN = /^#\s*Subtest:\s*(.*)$/;
+const BAIL_OUT_PATTERN = /^Bail out!/;
+const YAML_DURATION_PATTERN = /^\s*duration_ms:\s*([\d.]+)/;
+const TIME_DIRECTIVE_PATTERN = /\btime=([\d.]+)(ms|s)\b/;
+
+/**
+ * Check whether output looks like a TAP stream
+ *
+ * Requires a `TAP version` header or a plan line so that ordinary output
+ * which happens to contain the word "ok" is not mistaken for TAP.
+ *
+ * @param output - Raw test command output
+ * @returns True if the output appears to be TAP
+ */
+export function looksLikeTAP(output: string): boolean {
+  return VERSION_PATTERN.test(output) || PLAN_PATTERN.test(output);
+}
+
+/**
+ * Split a test point description into name and directive
+ *
+ * The directive starts at the first unescaped `#` that follows whitespace.
+ */
+function splitDirective(text: string): { name: string; directive: string } {
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\') {
+      i++; // Skip escaped character
+      continue;
+    }
+    if (char === '#' && (i === 0 || /\s/.test(text[i - 1]!))) {
+      return { name: text.slice(0, i).trim(), directive: text.slice(i + 1).trim() };
+    }
+  }
+  return { name: text.trim(), directive: '' };
+}
+
+/**
+ * Unescape `\#` and `\\` sequences in a test description
+ */
+function unescapeName(name: string): string {
+  return name.replace(/\\([\\#])/g, '$1');
+}
+
+/**
+ * Measure indentation depth (4 spaces per subtest level)
+ */
+function indentDepth(line: string): { depth: number; content: string } {
+  const match = /^[ \t]*/.exec(line);
+  const indent = (match?.[0] ?? '').replace(/\t/g, '    ').length;
+  return { depth: Math.floor(indent / 4), content: line.trimStart() };
+}
+
+/**
+ * Parse TAP output into individual test outcomes
+ *
+ * Only leaf tests are reported. Subtest names are prefixed with their
+ * parent names joined by " > ". A parent that failed while all of its
+ * subtests passed (e.g. a failing hook) is reported as a failed test itself.
+ *
+ * @param output - Raw TAP output (typically a run's stdout)
+ * @returns Test outcomes in the order they appear (empty if not TAP)
+ *
+ * @example
+ * ```typescript
+ * const outcomes = parseTAP('TAP version 13\nok 1 - adds\nnot ok 2 - subtracts\n1..2');
+ * // [{ name: 'adds', status: 'passed' }, { name: 'subtracts', status: 'failed' }]
+ * ```
+ */
+export function parseTAP(output: string): TestCaseOutcome[] {
+  if (!output || !looksLikeTAP(output)) {
+    return [];
+  }
+
+  // Resolved outcomes waiting for their parent test point, keyed by depth
+  const pending: TestCaseOutcome[][] = [];
+  // `# Subtest:` names announced at each depth
+  const headers: (string | undefined)[] = [];
+  let lastPoint: TestCaseOutcome | undefined;
+  let inYamlBlock = false;
+
+  for (const rawLine of output.split(/\r?\n/)) {
+    const { depth, content } = indentDepth(rawLine);
+
+    // Inside a YAML diagnostic block
+    if (inYamlBlock) {
+      if (content === '...') {
+        inYamlBlock = false;
+      } else if (lastPoint) {
+        const duration = YAML_DURATION_PATTERN.exec(content);
+        if (duration) {
+          lastPoint.durationMs = parseFloat(duration[1]!);
+        }
+      }
+      continue;
+    }
+
+    if (content === '---' && lastPoint) {
+      inYamlBlock = true;
+      continue;
+    }
+
+    if (BAIL_OUT_PATTERN.test(content)) {
+      break;
+    }
+
+    const subtest = SUBTEST_PATTERN.exec(content);
+    if (subtest) {
+      headers.length = depth;
+      headers[depth] = subtest[1]!.trim();
+      continue;
+    }
+
+    const point = TEST_POINT_PATTERN.exec(content);
+    if (!point) {
+      continue;
+    }
+
+    const { name: rawName, directive } = splitDirective(point[3] ?? '');
+    const name = unescapeName(rawName) || headers[depth] || `#${point[2] ?? (pending[depth]?.length ?? 0) + 1}`;
+
+    let status: TestCaseStatus = point[1] === 'ok' ? 'passed' : 'failed';
+    if (/^(SKIP|TODO)\b/i.test(directive)) {
+      status = 'skipped';
+    }
+
+    const outcome: TestCaseOutcome = { name, status };
+    const time = TIME_DIRECTIVE_PATTERN.exec(directive);
+    if (time) {
+      const value = parseFloat(time[1]!);
+      outcome.durationMs = time[2] === 's' ? value * 1000 : value;
+    }
+
+    // Collect subtests reported before this test point (everything deeper)
+    const children: TestCaseOutcome[] = [];
+    for (let d = depth + 1; d < pending.length; d++) {
+      children.push(...(pending[d] ?? []));
+    }
+    if (pending.length > depth + 1) {
+      pending.length = depth + 1;
+    }
+    headers.length = depth;
+
+    const siblings = (pending[depth] ??= []);
+
+    if (children.length === 0) {
+      siblings.push(outcome);
+    } else {
+      for (const child of children) {
+        child.name = `${name}${SUBTEST_SEPARATOR}${child.name}`;
+        siblings.push(child);
+      }
+      // Failure not explained by any subtest (e.g. a failing hook)
+      if (status === 'failed' && !children.some((child) => child.status === 'failed')) {
+        siblings.push(outcome);
+      }
+    }
+
+    lastPoint = outcome;
+  }
+
+  // Flush subtests whose parent test point never arrived (truncated output)
+  for (let d = pending.length - 1; d > 0; d--) {
+    const orphans = pending[d] ?? [];
+    const parent = headers[d - 1];
+    const target = (pending[d - 1] ??= []);
+    for (const orphan of orphans) {
+      if (parent) {
+        orphan.name = `${parent}${SUBTEST_SEPARATOR}${orphan.name}`;
+      }
+      target.push(orphan);
+    }
+  }
+
+  return pending[0] ?? [];
+}
+
+/**
+ * Built-in parser for TAP output on stdout
+ */
+export const tapParser: ResultParser = {
+  name: 'tap',
+  parse: (run) => parseTAP(run.stdout),
+  matches: (run) => looksLikeTAP(run.stdout),
+};
@@ -0,0 +1,209 @@
+/**
+ * Quarantine of known flaky tests
+ *
+ * The quarantine file (`.flaky-quarantine.json`) lists tests that are known
+ * to be flaky, each with a reason, an owner and an expiry date. Detection
+ * marks flaky tests that are quarantined so CI can stop blocking merges on
+ * them while still tracking them. Entries expire so the quarantine does not
+ * become a graveyard: an expired entry no longer quarantines its test and
+ * fails the CLI run until it is renewed or removed.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { DetectionReport, QuarantineEntry } from './types.js';
+
+/**
+ * Default quarantine file (relative to the working directory)
+ */
+export const DEFAULT_QUARANTINE_FILE = '.flaky-quarantine.json';
+
+/**
+ * Contents of the quarantine file
+ */
+interface QuarantineFile {
+  tests: QuarantineEntry[];
+}
+
+/**
+ * Whether a value is a calendar date written as YYYY-MM-DD
+ */
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+}
+
+/**
+ * Date of a point in time as YYYY-MM-DD (UTC)
+ *
+ * @param date - Point in time (default: now)
+ * @returns Calendar date, e.g. "2026-10-19"
+ */
+export function toDate(date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Whether a quarantine entry is past its expiry date
+ *
+ * @param entry - Quarantine entry
+ * @param now - Current time (default: now)
+ * @returns True once the day after `expires` has begun (UTC)
+ */
+export function isExpired(entry: QuarantineEntry, now = new Date()): boolean {
+  return entry.expires !== undefined && entry.expires < toDate(now);
+}
+
+/**
+ * Whether a parsed value is a valid quarantine entry
+ */
+function isQuarantineEntry(value: unknown): value is QuarantineEntry {
+  const entry = value as QuarantineEntry;
+  return (
+    typeof entry === 'object' &&
+    entry !== null &&
+    typeof entry.test === 'string' &&
+    entry.test !== '' &&
+    typeof entry.reason === 'string' &&
+    (entry.owner === undefined || typeof entry.owner === 'string') &&
+    isDate(entry.added) &&
+    (entry.expires === undefined || isDate(entry.expires))
+  );
+}
+
+/**
+ * Read the quarantine file
+ *
+ * @param file - Quarantine file (default: .flaky-quarantine.json)
+ * @returns Quarantine entries (none if the file does not exist)
+ * @throws Error if the file cannot be read or is not a valid quarantine file
+ *
+ * @example
+ * ```typescript
+ * const entries = await readQuarantine();
+ * const expired = entries.filter(entry => isExpired(entry));
+ * ```
+ */
+export async function readQuarantine(file = DEFAULT_QUARANTINE_FILE): Promise<QuarantineEntry[]> {
+  let content: string;
+  try {
+    content = await readFile(file, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  let parsed: QuarantineFile;
+  try {
+    parsed = JSON.parse(content) as QuarantineFile;
+  } catch {
+    throw new Error(`${file} is not valid JSON`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || !Array.isArray(parsed.tests)) {
+    throw new Error(`${file} has no "tests" list`);
+  }
+  parsed.tests.forEach((entry, index) => {
+    if (!isQuarantineEntry(entry)) {
+      throw new Error(`Entry ${index + 1} of ${file} needs a test, a reason and YYYY-MM-DD dates`);
+    }
+  });
+  return parsed.tests;
+}
+
+/**
+ * Write the quarantine file, sorted by test name
+ *
+ * @param file - Quarantine file
+ * @param entries - Quarantine entries
+ */
+export async function writeQuarantine(file: string, entries: QuarantineEntry[]): Promise<void> {
+  const contents: QuarantineFile = { tests: [...entries].sort((a, b) => a.test.localeCompare(b.test)) };
+  await writeFile(file, `${JSON.stringify(contents, null, 2)}\n`, 'utf-8');
+}
+
+/**
+ * Add a test to the quarantine, replacing an existing entry for it
+ *
+ * @param entries - Current quarantine entries
+ * @param entry - Entry to add
+ * @returns Updated entries
+ * @throws Error if the entry has no test or reason, or its dates are invalid
+ *
+ * @example
+ * ```typescript
+ * const entries = addToQuarantine(await readQuarantine(), {
+ *   test: 'login works',
+ *   reason: 'https://github.com/org/repo/issues/42',
+ *   owner: 'alice',
+ *   added: toDate(),
+ *   expires: '2026-11-30',
+ * });
+ * await writeQuarantine(DEFAULT_QUARANTINE_FILE, entries);
+ * ```
+ */
+export function addToQuarantine(entries: QuarantineEntry[], entry: QuarantineEntry): QuarantineEntry[] {
+  if (typeof entry.test !== 'string' || entry.test.trim() === '') {
+    throw new Error('Test name must be a non-empty string');
+  }
+  if (typeof entry.reason !== 'string' || entry.reason.trim() === '') {
+    throw new Error('Reason must be a non-empty string');
+  }
+  if (!isDate(entry.added) || (entry.expires !== undefined && !isDate(entry.expires))) {
+    throw new Error('Dates must be written as YYYY-MM-DD');
+  }
+  if (entry.expires !== undefined && entry.expires < entry.added) {
+    throw new Error(`Expiry date ${entry.expires} is before the date added (${entry.added})`);
+  }
+  return [...entries.filter((existing) => existing.test !== entry.test), entry];
+}
+
+/**
+ * Take a test out of the quarantine
+ *
+ * @param entries - Current quarantine entries
+ * @param test - Name of the test
+ * @returns Updated entries
+ * @throws Error if the test is not quarantined
+ */
+export function removeFromQuarantine(entries: QuarantineEntry[], test: string): QuarantineEntry[] {
+  const remaining = entries.filter((entry) => entry.test !== test);
+  if (remaining.length === entries.length) {
+    throw new Error(`${test} is not quarantined`);
+  }
+  return remaining;
+}
+
+/**
+ * Drop expired entries from the quarantine
+ *
+ * @param entries - Current quarantine entries
+ * @param now - Current time (default: now)
+ * @returns Entries that have not expired
+ */
+export function pruneQuarantine(entries: QuarantineEntry[], now = new Date()): QuarantineEntry[] {
+  return entries.filter((entry) => !isExpired(entry, now));
+}
+
+/**
+ * Mark quarantined flaky tests in a report and record expired entries
+ *
+ * Flaky tests with an unexpired entry get `quarantined: true`; expired
+ * entries quarantine nothing and are listed in `expiredQuarantine`.
+ *
+ * @param report - Detection report (modified in place)
+ * @param entries - Quarantine entries
+ * @param now - Current time (default: now)
+ */
+export function markQuarantined(report: DetectionReport, entries: QuarantineEntry[], now = new Date()): void {
+  const quarantined = new Set(pruneQuarantine(entries, now).map((entry) => entry.test));
+  for (const test of report.flakyTests) {
+    if (quarantined.has(test.testName)) {
+      test.quarantined = true;
+    }
+  }
+
+  const expired = entries.filter((entry) => isExpired(entry, now));
+  if (expired.length > 0) {
+    report.expiredQuarantine = expired;
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Failure signature clustering
+ *
+ * Groups failed runs by what went wrong: each run's output is normalized
+ * (see normalize.ts) and its most specific failure line (an error or
+ * assertion, else a stack frame) is hashed into a signature. Runs with the
+ * same signature most likely hit the same bug.
+ */
+
+import { createHash } from 'node:crypto';
+import { FailureCluster, TestRunResult } from './types.js';
+import { normalizeOutput, Normalizer } from './normalize.js';
+import { SUBTEST_SEPARATOR } from './parsers/tap.js';
+
+/**
+ * Lines that identify a failure, most specific first: error and assertion
+ * lines (including the `error:` of TAP diagnostics), then stack frames and
+ * generic markers
+ */
+const FAILURE_LINES = [
+  /(?:Error|Exception)\b|^\s*error:\s|panic|\bassert\w*(?:\.\w+)?\(|^\s*assert\s/,
+  /^\s*at\s|File ".*", line \d+|Traceback|\bFAIL\b|\bexpect\(/,
+];
+
+/**
+ * Test headers and summaries, which name tests rather than what went wrong
+ */
+const HEADER_LINE = /^\s*(?:#\s*Subtest:|(?:not )?ok\b|#\s*(?:tests|suites|pass|fail|cancelled|skipped|todo|duration_ms)\b|1\.\.\d+|TAP version)/;
+
+/**
+ * Number of raw output lines kept as a cluster's excerpt
+ */
+const EXCERPT_LINES = 3;
+
+/**
+ * Maximum length of a cluster's excerpt
+ */
+const MAX_EXCERPT_LENGTH = 500;
+
+/**
+ * Find the most specific failure line in each of the given outputs
+ *
+ * @returns Output and line index of the match, or undefined if no line identifies a failure
+ */
+function findFailure(outputs: string[][]): { lines: string[]; index: number } | undefined {
+  for (const pattern of FAILURE_LINES) {
+    for (const lines of outputs) {
+      const index = lines.findIndex((line) => !HEADER_LINE.test(line) && pattern.test(line));
+      if (index !== -1) {
+        return { lines, index };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Indentation width of a line
+ */
+function indentation(line: string): number {
+  return /^[ \t]*/.exec(line)![0].replace(/\t/g, '    ').length;
+}
+
+/**
+ * Find the output section describing a test's failure
+ *
+ * The section is the block indented below a line ending with the test's
+ * (innermost) name, such as a TAP `not ok 2 - name` test point with its
+ * diagnostics, or a Jest `● suite › name` entry.
+ *
+ * @returns Section lines, or undefined if no such block identifies a failure
+ */
+function findTestSection(outputs: string[][], testName: string): string[] | undefined {
+  const name = testName.split(SUBTEST_SEPARATOR).pop()!.trim();
+  if (name === '') {
+    return undefined;
+  }
+
+  for (const lines of outputs) {
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i]!.trimEnd().endsWith(name)) {
+        continue;
+      }
+      const indent = indentation(lines[i]!);
+      let end = i + 1;
+      while (end < lines.length && (lines[end]!.trim() === '' || indentation(lines[end]!) > indent)) {
+        end++;
+      }
+      const section = lines.slice(i + 1, end);
+      if (findFailure([section])) {
+        return section;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the line that identifies a run's failure and the raw lines following it
+ */
+function findFailureLine(run: TestRunResult, testName?: string): { line: string; excerpt: string } {
+  if (run.timedOut) {
+    return { line: 'Run timed out', excerpt: 'Run timed out' };
+  }
+
+  const streams = [run.stderr, run.stdout].map((output) => output.split('\n'));
+  const section = testName !== undefined ? findTestSection(streams, testName) : undefined;
+
+  const failure = findFailure(section ? [section] : streams);
+  if (failure) {
+    const { lines, index } = failure;
+    return { line: lines[index]!, excerpt: lines.slice(index, index + EXCERPT_LINES).join('\n') };
+  }
+
+  // No recognizable failure: fall back to the first line of stderr, then the last line of stdout
+  const stderrLine = streams[0]!.find((line) => line.trim() !== '');
+  const stdoutLine = [...streams[1]!].reverse().find((line) => line.trim() !== '');
+  const line = stderrLine ?? stdoutLine ?? `Exit code ${run.exitCode}`;
+  return { line, excerpt: line };
+}
+
+/**
+ * Compute the signature of a failed run
+ *
+ * With a test name, the failure is looked up in the output section of that
+ * test first, so a failure of another test in the same run is not mistaken
+ * for it.
+ *
+ * @param run - Failed test run
+ * @param normalize - Normalizer applied to the failure line before hashing (default: built-in rules)
+ * @param testName - Test whose failure to describe (default: the run's first failure)
+ * @returns Signature hash (12 hex characters) and a raw excerpt of the failure
+ */
+export function failureSignature(
+  run: TestRunResult,
+  normalize: Normalizer = normalizeOutput,
+  testName?: string
+): { signature: string; excerpt: string } {
+  const { line, excerpt } = findFailureLine(run, testName);
+  const signature = createHash('sha256').update(normalize(line).trim()).digest('hex').slice(0, 12);
+
+  const trimmed = excerpt
+    .split('\n')
+    .map((excerptLine) => excerptLine.trim())
+    .filter((excerptLine) => excerptLine !== '')
+    .join('\n');
+
+  return {
+    signature,
+    excerpt: trimmed.length > MAX_EXCERPT_LENGTH ? `${trimmed.slice(0, MAX_EXCERPT_LENGTH)}…` : trimmed,
+  };
+}
+
+/**
+ * Group failed runs by failure signature
+ *
+ * @param runs - Completed test run results
+ * @param isFailure - Which runs to cluster (default: failed runs)
+ * @param normalize - Normalizer applied before computing signatures (default: built-in rules)
+ * @param testName - Test whose failures to cluster (default: each run's first failure)
+ * @returns Clusters ordered by count (most common first), then by first occurrence;
+ *   each keeps the excerpt of its first run
+ *
+ * @example
+ * ```typescript
+ * const clusters = clusterFailures(report.runs);
+ * clusters.forEach(cluster => console.log(`${cluster.count}× ${cluster.excerpt}`));
+ * ```
+ */
+export function clusterFailures(
+  runs: TestRunResult[],
+  isFailure: (run: TestRunResult) => boolean = (run) => !run.success,
+  normalize: Normalizer = normalizeOutput,
+  testName?: string
+): FailureCluster[] {
+  const clusters = new Map<string, FailureCluster>();
+
+  runs.forEach((run, index) => {
+    if (!isFailure(run)) {
+      return;
+    }
+
+    const { signature, excerpt } = failureSignature(run, normalize, testName);
+    const cluster = clusters.get(signature) ?? { signature, count: 0, runNumbers: [], excerpt };
+    cluster.count++;
+    cluster.runNumbers.push(run.runNumber ?? index + 1);
+    clusters.set(signature, cluster);
+  });
+
+  // Stable sort keeps first-occurrence order for equal counts
+  return [...clusters.values()].sort((a, b) => b.count - a.count);
+}
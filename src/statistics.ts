@@ -0,0 +1,270 @@
+/**
+ * Statistics for failure rates observed across test runs
+ *
+ * Failure counts are modelled as binomial: each run of a test fails
+ * independently with an unknown probability, estimated from the runs so far.
+ */
+
+import { TestTally } from './early-stop.js';
+import { ConfidenceInterval } from './types.js';
+
+/**
+ * Confidence level used for intervals and run estimates when none is configured
+ */
+export const DEFAULT_CONFIDENCE_LEVEL = 95;
+
+/**
+ * Natural logarithm of n! (exact summation, cached)
+ */
+const logFactorials: number[] = [0];
+
+function logFactorial(n: number): number {
+  for (let i = logFactorials.length; i <= n; i++) {
+    logFactorials[i] = logFactorials[i - 1]! + Math.log(i);
+  }
+  return logFactorials[n]!;
+}
+
+/**
+ * Probability of exactly k failures in n runs with failure probability p
+ */
+function binomialPmf(k: number, n: number, p: number): number {
+  if (p <= 0) {
+    return k === 0 ? 1 : 0;
+  }
+  if (p >= 1) {
+    return k === n ? 1 : 0;
+  }
+  const logCoefficient = logFactorial(n) - logFactorial(k) - logFactorial(n - k);
+  return Math.exp(logCoefficient + k * Math.log(p) + (n - k) * Math.log(1 - p));
+}
+
+/**
+ * Probability of at most k failures in n runs with failure probability p
+ *
+ * @param k - Number of failures
+ * @param n - Number of runs
+ * @param p - Failure probability per run (0-1)
+ * @returns P(X ≤ k), between 0 and 1
+ */
+export function binomialCdf(k: number, n: number, p: number): number {
+  if (k < 0) {
+    return 0;
+  }
+  if (k >= n) {
+    return 1;
+  }
+
+  let sum = 0;
+  for (let i = 0; i <= k; i++) {
+    sum += binomialPmf(i, n, p);
+  }
+  return Math.min(sum, 1);
+}
+
+/**
+ * Confidence that a test's true failure rate is on the side of the
+ * threshold its observed failure rate suggests
+ *
+ * Computed from exact one-sided binomial tests: with f failures in n runs,
+ * confidence that the rate exceeds the threshold is 1 − P(X ≥ f | threshold),
+ * and confidence that it does not is 1 − P(X ≤ f | threshold). The larger of
+ * the two is returned. A test that never failed can never be shown to be at
+ * or below a threshold of 0.
+ *
+ * @param passed - Number of passing runs
+ * @param failed - Number of failing runs
+ * @param threshold - Flakiness threshold percentage (0-100)
+ * @returns Confidence percentage (0-100)
+ *
+ * @example
+ * ```typescript
+ * failureRateConfidence(59, 0, 5);  // ~95.2 (rate is at most 5%)
+ * failureRateConfidence(10, 10, 5); // ~100 (rate exceeds 5%)
+ * ```
+ */
+export function failureRateConfidence(passed: number, failed: number, threshold: number): number {
+  const runs = passed + failed;
+  if (runs === 0) {
+    return 0;
+  }
+
+  const rate = threshold / 100;
+  const confidenceAbove = failed > 0 ? binomialCdf(failed - 1, runs, rate) : 0;
+  const confidenceBelow = 1 - binomialCdf(failed, runs, rate);
+
+  return Math.max(confidenceAbove, confidenceBelow) * 100;
+}
+
+/**
+ * Confidence reached for every test at once (the least confident test)
+ *
+ * @param tallies - Pass/fail counts for every test seen so far
+ * @param threshold - Flakiness threshold percentage (0-100)
+ * @returns Confidence percentage (0-100), 0 when no test has run
+ */
+export function achievedConfidence(tallies: TestTally[], threshold: number): number {
+  if (tallies.length === 0) {
+    return 0;
+  }
+  return Math.min(...tallies.map((tally) => failureRateConfidence(tally.passed, tally.failed, threshold)));
+}
+
+/**
+ * Quantile function of the standard normal distribution
+ *
+ * Acklam's rational approximation (relative error below 1.2e-9).
+ *
+ * @param p - Probability (0-1, exclusive)
+ * @returns z such that P(Z ≤ z) = p
+ */
+export function normalQuantile(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0]! * q + c[1]!) * q + c[2]!) * q + c[3]!) * q + c[4]!) * q + c[5]!) /
+      ((((d[0]! * q + d[1]!) * q + d[2]!) * q + d[3]!) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return ((((((a[0]! * r + a[1]!) * r + a[2]!) * r + a[3]!) * r + a[4]!) * r + a[5]!) * q) /
+    (((((b[0]! * r + b[1]!) * r + b[2]!) * r + b[3]!) * r + b[4]!) * r + 1);
+}
+
+/**
+ * Wilson score confidence interval for a failure rate
+ *
+ * Unlike the plain point estimate, the interval narrows as runs accumulate:
+ * 1 failure in 3 runs and 100 failures in 300 runs both estimate 33.3%, but
+ * their 95% intervals are about 6–79% and 28–39%.
+ *
+ * @param passed - Number of passing runs
+ * @param failed - Number of failing runs
+ * @param confidence - Confidence level percentage (default: 95)
+ * @returns Interval bounds as percentages (0-100)
+ *
+ * @example
+ * ```typescript
+ * wilsonInterval(200, 100);
+ * // { lower: 28.2, upper: 38.8, confidence: 95, method: 'wilson' } (rounded)
+ * ```
+ */
+export function wilsonInterval(passed: number, failed: number, confidence = DEFAULT_CONFIDENCE_LEVEL): ConfidenceInterval {
+  const runs = passed + failed;
+  if (runs === 0) {
+    return { lower: 0, upper: 100, confidence, method: 'wilson' };
+  }
+
+  const z = normalQuantile(1 - (1 - confidence / 100) / 2);
+  const rate = failed / runs;
+  const z2 = z * z;
+  const denominator = 1 + z2 / runs;
+  const center = (rate + z2 / (2 * runs)) / denominator;
+  const halfWidth = (z / denominator) * Math.sqrt((rate * (1 - rate)) / runs + z2 / (4 * runs * runs));
+
+  return {
+    lower: Math.max(0, center - halfWidth) * 100,
+    upper: Math.min(1, center + halfWidth) * 100,
+    confidence,
+    method: 'wilson',
+  };
+}
+
+/**
+ * One-sided p-value of the observed failures against the threshold
+ *
+ * The probability of seeing at least this many failures if the true failure
+ * rate were exactly the threshold. Small values (e.g. < 0.05) are strong
+ * evidence that the failure rate exceeds the threshold.
+ *
+ * @param passed - Number of passing runs
+ * @param failed - Number of failing runs
+ * @param threshold - Flakiness threshold percentage (0-100)
+ * @returns p-value (0-1)
+ */
+export function thresholdPValue(passed: number, failed: number, threshold: number): number {
+  if (failed === 0) {
+    return 1;
+  }
+  return Math.max(0, 1 - binomialCdf(failed - 1, passed + failed, threshold / 100));
+}
+
+/**
+ * Number of runs needed to see at least one failure of a test that fails
+ * at the given rate, with the given confidence
+ *
+ * @param failureRate - Failure rate percentage (0-100)
+ * @param confidence - Confidence level percentage (default: 95)
+ * @returns Number of runs (Infinity for a failure rate of 0)
+ *
+ * @example
+ * ```typescript
+ * runsToDetect(10);     // 29
+ * runsToDetect(1, 99);  // 459
+ * ```
+ */
+export function runsToDetect(failureRate: number, confidence = DEFAULT_CONFIDENCE_LEVEL): number {
+  if (failureRate <= 0) {
+    return Infinity;
+  }
+  if (failureRate >= 100) {
+    return 1;
+  }
+  return Math.ceil(Math.log(1 - confidence / 100) / Math.log(1 - failureRate / 100));
+}
+
+/**
+ * Two-sided Fisher exact test of whether two failure rates differ
+ *
+ * Conditions on the total number of failures and sums the probabilities of
+ * every split of them between the two samples that is at most as likely as
+ * the observed split (hypergeometric distribution). Exact for small run
+ * counts, where a normal approximation would overstate significance.
+ *
+ * @param failedA - Failing runs in the first sample
+ * @param totalA - Total runs in the first sample
+ * @param failedB - Failing runs in the second sample
+ * @param totalB - Total runs in the second sample
+ * @returns p-value (0-1); small values (e.g. < 0.05) mean the rates really differ
+ *
+ * @example
+ * ```typescript
+ * fisherExactTest(1, 20, 9, 20);  // ≈ 0.0084 (5% vs 45%)
+ * fisherExactTest(1, 10, 2, 10);  // 1 (no evidence of a change)
+ * ```
+ */
+export function fisherExactTest(failedA: number, totalA: number, failedB: number, totalB: number): number {
+  const failed = failedA + failedB;
+  const total = totalA + totalB;
+  if (totalA === 0 || totalB === 0 || failed === 0 || failed === total) {
+    return 1;
+  }
+
+  const logDenominator = logFactorial(total) - logFactorial(failed) - logFactorial(total - failed);
+  const probability = (k: number): number =>
+    Math.exp(
+      logFactorial(totalA) - logFactorial(k) - logFactorial(totalA - k) +
+        logFactorial(totalB) - logFactorial(failed - k) - logFactorial(totalB - failed + k) -
+        logDenominator
+    );
+
+  const observed = probability(failedA);
+  let pValue = 0;
+  for (let k = Math.max(0, failed - totalB); k <= Math.min(failed, totalA); k++) {
+    const p = probability(k);
+    // Relative tolerance so splits exactly as likely as the observed one count despite rounding
+    if (p <= observed * (1 + 1e-7)) {
+      pValue += p;
+    }
+  }
+  return Math.min(pValue, 1);
+}
@@ -0,0 +1,170 @@
+/**
+ * Run and test duration analysis
+ *
+ * Summarizes how long runs take and checks whether a test's failures
+ * coincide with its slowest runs - a sign of a timeout in disguise.
+ */
+
+import { DurationStats, TestRunResult } from './types.js';
+
+/**
+ * Duration of a test in a single run, and whether it failed in that run
+ */
+export interface DurationSample {
+  durationMs: number;
+  failed: boolean;
+}
+
+/**
+ * Correlation between failing and duration from which failures are flagged
+ * as slow (`slowFailures`)
+ */
+export const SLOW_FAILURE_CORRELATION = 0.5;
+
+/**
+ * Minimum number of failing and of passing runs before failures are flagged as slow
+ */
+export const SLOW_FAILURE_MIN_RUNS = 3;
+
+/**
+ * Minimum difference in milliseconds between the mean failing and the mean
+ * passing duration before failures are flagged as slow (smaller gaps are noise)
+ */
+export const SLOW_FAILURE_MIN_GAP_MS = 50;
+
+/**
+ * Value at the given percentile of sorted values (linear interpolation)
+ */
+function percentile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * (p / 100);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (position - lower);
+}
+
+/**
+ * Summarize a set of durations
+ *
+ * @param durations - Durations in milliseconds
+ * @returns Duration statistics, or undefined without durations
+ *
+ * @example
+ * ```typescript
+ * durationStats([100, 200, 300]);
+ * // { min: 100, median: 200, p95: 290, max: 300, coefficientOfVariation: 0.41 } (rounded)
+ * ```
+ */
+export function durationStats(durations: number[]): DurationStats | undefined {
+  if (durations.length === 0) {
+    return undefined;
+  }
+
+  const sorted = [...durations].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, duration) => sum + duration, 0) / sorted.length;
+  const variance = sorted.reduce((sum, duration) => sum + (duration - mean) ** 2, 0) / sorted.length;
+
+  return {
+    min: sorted[0]!,
+    median: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    max: sorted[sorted.length - 1]!,
+    coefficientOfVariation: mean > 0 ? Math.sqrt(variance) / mean : 0,
+  };
+}
+
+/**
+ * Correlation between failing and taking long (point-biserial correlation)
+ *
+ * Ranges from -1 to 1: close to 1 when the failing runs are the slowest,
+ * close to 0 when failures happen regardless of duration.
+ *
+ * @param samples - Duration and outcome of each run
+ * @returns Correlation coefficient, or undefined if durations or outcomes never vary
+ */
+export function durationCorrelation(samples: DurationSample[]): number | undefined {
+  const n = samples.length;
+  const failures = samples.filter((sample) => sample.failed).length;
+  if (failures === 0 || failures === n) {
+    return undefined;
+  }
+
+  const mean = samples.reduce((sum, sample) => sum + sample.durationMs, 0) / n;
+  const variance = samples.reduce((sum, sample) => sum + (sample.durationMs - mean) ** 2, 0) / n;
+  if (variance === 0) {
+    return undefined;
+  }
+
+  const failedMean = samples.filter((sample) => sample.failed).reduce((sum, sample) => sum + sample.durationMs, 0) / failures;
+  const passedMean = samples.filter((sample) => !sample.failed).reduce((sum, sample) => sum + sample.durationMs, 0) / (n - failures);
+  const failureShare = failures / n;
+
+  return ((failedMean - passedMean) / Math.sqrt(variance)) * Math.sqrt(failureShare * (1 - failureShare));
+}
+
+/**
+ * Whether a test's failures coincide with its slow runs
+ *
+ * Needs a correlation of at least SLOW_FAILURE_CORRELATION, at least
+ * SLOW_FAILURE_MIN_RUNS failing and passing runs, and failing runs that take
+ * SLOW_FAILURE_MIN_GAP_MS longer on average: a few short runs correlate
+ * strongly by chance.
+ *
+ * @param samples - Duration and outcome of each run
+ * @returns True if failures are likely timeouts in disguise
+ */
+export function slowFailures(samples: DurationSample[]): boolean {
+  const failed = samples.filter((sample) => sample.failed);
+  const passed = samples.filter((sample) => !sample.failed);
+  if (failed.length < SLOW_FAILURE_MIN_RUNS || passed.length < SLOW_FAILURE_MIN_RUNS) {
+    return false;
+  }
+
+  const mean = (group: DurationSample[]): number => group.reduce((sum, sample) => sum + sample.durationMs, 0) / group.length;
+  const correlation = durationCorrelation(samples);
+  return (
+    correlation !== undefined &&
+    correlation >= SLOW_FAILURE_CORRELATION &&
+    mean(failed) - mean(passed) >= SLOW_FAILURE_MIN_GAP_MS
+  );
+}
+
+/**
+ * Collect a test's duration and outcome from every run it was reported in
+ *
+ * Individual tests use the durations reported by the result parser, falling
+ * back to the run duration. The suite-level "Test Suite" entry (runs without
+ * individual test outcomes) uses run durations. Skipped tests and timed-out
+ * runs are left out.
+ *
+ * @param runs - Completed test run results
+ * @param testName - Test name as reported in TestFlakiness
+ * @returns One sample per run with a known duration
+ */
+export function durationSamples(runs: TestRunResult[], testName: string): DurationSample[] {
+  const hasTestOutcomes = runs.some((run) => run.tests !== undefined && run.tests.length > 0);
+  const samples: DurationSample[] = [];
+
+  for (const run of runs) {
+    if (!hasTestOutcomes) {
+      if (run.timedOut !== true && run.durationMs !== undefined) {
+        samples.push({ durationMs: run.durationMs, failed: !run.success });
+      }
+      continue;
+    }
+
+    const reports = (run.tests ?? []).filter((test) => test.name === testName && test.status !== 'skipped');
+    if (reports.length === 0) {
+      continue;
+    }
+
+    const reported = reports.filter((test) => test.durationMs !== undefined);
+    const durationMs = reported.length > 0
+      ? reported.reduce((sum, test) => sum + test.durationMs!, 0)
+      : run.durationMs;
+    if (durationMs !== undefined) {
+      samples.push({ durationMs, failed: reports.some((test) => test.status === 'failed') });
+    }
+  }
+
+  return samples;
+}
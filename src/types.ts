@@ -12,13 +12,56 @@ export type Result<T> =
 
 /**
  * Progress event emitted during test execution
+ *
+ * `totalRuns` is always the total across shards; a sharded detection's
+ * `start` event also carries the number of runs the shard makes (`shardRuns`).
  */
 export type ProgressEvent =
-  | { type: 'start'; totalRuns: number }
+  | { type: 'start'; totalRuns: number; shardRuns?: number }
   | { type: 'run-start'; runNumber: number; totalRuns: number }
   | { type: 'run-complete'; runNumber: number; totalRuns: number; success: boolean; exitCode: number }
   | { type: 'complete'; report: DetectionReport };
 
+/**
+ * Early stopping rule
+ * - verdict: stop once a test is flaky no matter how the remaining runs turn out
+ * - sprt: sequential probability ratio test; also stops once every test is
+ *   statistically at or below a non-zero threshold
+ */
+export type EarlyStopMode = 'verdict' | 'sprt';
+
+/**
+ * Built-in output normalization rule
+ * - timestamps: ISO 8601 timestamps and times of day
+ * - durations: durations with a unit (`12ms`, `1.5s`) and duration fields (`duration_ms: 12.3`)
+ * - uuids: UUIDs
+ * - addresses: hex memory addresses (`0x7ffd5e8c1a40`)
+ * - pids: process IDs (`pid 4242`)
+ * - ports: ports of local and numeric hosts and URLs (`127.0.0.1:54321`, `port 8080`)
+ * - temp-dirs: temporary paths (`/tmp/...`, `/var/folders/...`, `%TEMP%`)
+ */
+export type BuiltinNormalization = 'timestamps' | 'durations' | 'uuids' | 'addresses' | 'pids' | 'ports' | 'temp-dirs';
+
+/**
+ * User-supplied regex replacement applied to test output
+ */
+export interface NormalizationRule {
+  /** Pattern to replace (strings are compiled as global regular expressions; RegExps always replace globally) */
+  pattern: RegExp | string;
+  /** Replacement, which may reference capture groups (`$1`) */
+  replacement: string;
+}
+
+/**
+ * Output normalization options
+ */
+export interface NormalizeOptions {
+  /** Built-in rules to apply: `true` for all (default), `false` for none, or a list of rule names */
+  builtins?: boolean | BuiltinNormalization[];
+  /** Regex replacements applied in order after the built-in rules */
+  rules?: NormalizationRule[];
+}
+
 /**
  * Configuration options for flakiness detection
  */
@@ -31,6 +74,32 @@ export interface Config {
   verbose?: boolean;
   /** Custom flakiness threshold percentage (default: 0, any failure = flaky) */
   threshold?: number;
+  /** Number of runs to execute at the same time (default: 1, sequential) */
+  concurrency?: number;
+  /** Per-run timeout in milliseconds; hung runs have their process tree killed (default: no timeout) */
+  timeoutMs?: number;
+  /** Stop once the verdict is settled: `true`/'verdict' when flakiness is proven, 'sprt' statistically (default: false) */
+  earlyStop?: boolean | EarlyStopMode;
+  /** Target confidence percentage (50-99.9) that every test's failure rate is above or at/below `threshold`; runs continue until reached, with `runs` as the budget */
+  confidence?: number;
+  /** Time budget in milliseconds: keep starting runs while they are expected to finish within it (`runs` defaults to the 1000-run maximum) */
+  maxDurationMs?: number;
+  /** Glob pattern for JUnit XML files written by the test command (enables per-test tracking) */
+  junit?: string;
+  /** Glob pattern for result files written by each run, read by the parser instead of stdout (requires `parser`) */
+  resultFiles?: string;
+  /** Result parser name or instance for per-test tracking (default: detected automatically) */
+  parser?: string | ResultParser;
+  /** Output normalization used when clustering failures and diffing outputs (default: every built-in rule) */
+  normalize?: NormalizeOptions;
+  /** Directory of the flakiness history; when set, a summary of the report is appended to it */
+  historyDir?: string;
+  /** Make only this shard's share of the runs (run numbers stay unique across shards) */
+  shard?: ShardSpec;
+  /** Quarantine file; when set, flaky tests with an unexpired entry in it are marked `quarantined` */
+  quarantineFile?: string;
+  /** Signal that stops detection when aborted (in-flight runs are killed) */
+  signal?: AbortSignal;
   /** Optional callback for progress events */
   onProgress?: (event: ProgressEvent) => void;
 }
@@ -47,6 +116,32 @@ export interface DetectOptions {
   verbose?: boolean;
   /** Custom flakiness threshold percentage (default: 0, any failure = flaky) */
   threshold?: number;
+  /** Number of runs to execute at the same time (default: 1, sequential) */
+  concurrency?: number;
+  /** Per-run timeout in milliseconds; hung runs have their process tree killed (default: no timeout) */
+  timeoutMs?: number;
+  /** Stop once the verdict is settled: `true`/'verdict' when flakiness is proven, 'sprt' statistically (default: false) */
+  earlyStop?: boolean | EarlyStopMode;
+  /** Target confidence percentage (50-99.9) that every test's failure rate is above or at/below `threshold`; runs continue until reached, with `runs` as the budget */
+  confidence?: number;
+  /** Time budget in milliseconds: keep starting runs while they are expected to finish within it (`runs` defaults to the 1000-run maximum) */
+  maxDurationMs?: number;
+  /** Glob pattern for JUnit XML files written by the test command (enables per-test tracking) */
+  junit?: string;
+  /** Glob pattern for result files written by each run, read by the parser instead of stdout (requires `parser`) */
+  resultFiles?: string;
+  /** Result parser name or instance for per-test tracking (default: detected automatically) */
+  parser?: string | ResultParser;
+  /** Output normalization used when clustering failures and diffing outputs (default: every built-in rule) */
+  normalize?: NormalizeOptions;
+  /** Directory of the flakiness history; when set, a summary of the report is appended to it */
+  historyDir?: string;
+  /** Make only this shard's share of the runs (run numbers stay unique across shards) */
+  shard?: ShardSpec;
+  /** Quarantine file; when set, flaky tests with an unexpired entry in it are marked `quarantined` */
+  quarantineFile?: string;
+  /** Signal that stops detection when aborted; the report holds the runs completed so far */
+  signal?: AbortSignal;
   /** Optional callback for progress events */
   onProgress?: (event: ProgressEvent) => void;
 }
@@ -61,6 +156,22 @@ export interface IsFlakyOptions {
   runs?: number;
   /** Custom flakiness threshold percentage (default: 0) */
   threshold?: number;
+  /** Number of runs to execute at the same time (default: 1, sequential) */
+  concurrency?: number;
+  /** Per-run timeout in milliseconds; hung runs have their process tree killed (default: no timeout) */
+  timeoutMs?: number;
+  /** Stop once the verdict is settled: `true`/'verdict' when flakiness is proven, 'sprt' statistically (default: true) */
+  earlyStop?: boolean | EarlyStopMode;
+  /** Target confidence percentage (50-99.9) that every test's failure rate is above or at/below `threshold`; runs continue until reached, with `runs` as the budget */
+  confidence?: number;
+  /** Time budget in milliseconds: keep starting runs while they are expected to finish within it (`runs` defaults to the 1000-run maximum) */
+  maxDurationMs?: number;
+  /** Glob pattern for result files written by each run, read by the parser instead of stdout (requires `parser`) */
+  resultFiles?: string;
+  /** Result parser name or instance for per-test tracking (default: detected automatically) */
+  parser?: string | ResultParser;
+  /** Signal that stops the check when aborted */
+  signal?: AbortSignal;
   /** Optional callback for progress events */
   onProgress?: (event: ProgressEvent) => void;
 }
@@ -75,14 +186,66 @@ export interface CompileOptions {
   verbose?: boolean;
   /** Custom flakiness threshold percentage (default: 0) */
   threshold?: number;
+  /** Number of runs to execute at the same time (default: 1, sequential) */
+  concurrency?: number;
+  /** Per-run timeout in milliseconds; hung runs have their process tree killed (default: no timeout) */
+  timeoutMs?: number;
+  /** Stop once the verdict is settled: `true`/'verdict' when flakiness is proven, 'sprt' statistically (default: false) */
+  earlyStop?: boolean | EarlyStopMode;
+  /** Target confidence percentage (50-99.9) that every test's failure rate is above or at/below `threshold`; runs continue until reached, with `runs` as the budget */
+  confidence?: number;
+  /** Time budget in milliseconds: keep starting runs while they are expected to finish within it (`runs` defaults to the 1000-run maximum) */
+  maxDurationMs?: number;
+  /** Glob pattern for result files written by each run, read by the parser instead of stdout (requires `parser`) */
+  resultFiles?: string;
+  /** Result parser name or instance for per-test tracking (default: detected automatically) */
+  parser?: string | ResultParser;
+  /** Output normalization used when clustering failures and diffing outputs (default: every built-in rule) */
+  normalize?: NormalizeOptions;
+  /** Directory of the flakiness history; when set, a summary of the report is appended to it */
+  historyDir?: string;
+  /** Make only this shard's share of the runs (run numbers stay unique across shards) */
+  shard?: ShardSpec;
+  /** Quarantine file; when set, flaky tests with an unexpired entry in it are marked `quarantined` */
+  quarantineFile?: string;
   /** Optional callback for progress events */
   onProgress?: (event: ProgressEvent) => void;
 }
 
+/**
+ * Status of an individual test case within a single run
+ */
+export type TestCaseStatus = 'passed' | 'failed' | 'skipped';
+
+/**
+ * Outcome of an individual test case parsed from test runner output
+ */
+export interface TestCaseOutcome {
+  /** Fully qualified test name (subtests joined with " > ") */
+  name: string;
+  /** Whether the test passed, failed or was skipped */
+  status: TestCaseStatus;
+  /** Test duration in milliseconds, if reported by the test runner */
+  durationMs?: number;
+}
+
+/**
+ * Why a run failed
+ * - test-failure: the command exited with a non-zero exit code
+ * - crash: the command was terminated by a crash signal (SIGSEGV, SIGBUS, SIGABRT, ...)
+ * - killed: the command was terminated by another signal (SIGTERM, SIGINT, ...) or hit the output limit
+ * - oom-suspected: the command was killed with SIGKILL, usually by the out-of-memory killer
+ * - spawn-error: the command could not be started (spawn failure, exit code 126 or 127)
+ * - timeout: the run exceeded the timeout and was killed
+ */
+export type FailureKind = 'test-failure' | 'crash' | 'killed' | 'oom-suspected' | 'spawn-error' | 'timeout';
+
 /**
  * Result of a single test run
  */
 export interface TestRunResult {
+  /** Run number (1-based) this result belongs to */
+  runNumber?: number;
   /** Whether the test command succeeded */
   success: boolean;
   /** Exit code from the test command */
@@ -91,6 +254,137 @@ export interface TestRunResult {
   stdout: string;
   /** Standard error from the test command */
   stderr: string;
+  /** Signal that terminated the test command, if any (e.g. 'SIGSEGV') */
+  signal?: string;
+  /** Whether the run was killed for exceeding the timeout (a hang, not an ordinary failure) */
+  timedOut?: boolean;
+  /** Why the run failed (absent for passing runs) */
+  failureKind?: FailureKind;
+  /** Time the run started (epoch milliseconds) */
+  startedAt?: number;
+  /** Time the run ended (epoch milliseconds) */
+  endedAt?: number;
+  /** Wall-clock duration of the run in milliseconds */
+  durationMs?: number;
+  /** Machine the run executed on (present on runs of merged reports) */
+  hostname?: string;
+  /** 1-based index of the shard the run came from (present on runs of sharded detections and merged reports) */
+  shard?: number;
+  /** Individual test outcomes parsed from the output (absent if none were recognized) */
+  tests?: TestCaseOutcome[];
+}
+
+/**
+ * Context passed to result parsers for each completed run
+ */
+export interface ParseContext {
+  /** Run number (1-based) */
+  runNumber: number;
+  /** Time the run started (epoch milliseconds) */
+  startedAt: number;
+  /** Glob pattern for result files written by the test command, if configured */
+  resultFiles?: string;
+  /** Result files that existed before the run started; only files the run created or changed are read */
+  resultFilesBefore?: ResultFileSnapshot;
+}
+
+/**
+ * Modification time and size of result files, keyed by path
+ */
+export type ResultFileSnapshot = Map<string, { mtimeMs: number; size: number }>;
+
+/**
+ * Parser that extracts individual test outcomes from a test run
+ *
+ * Register custom parsers with registerParser() to select them by name,
+ * or pass the parser object directly via the `parser` option.
+ */
+export interface ResultParser {
+  /** Unique parser name (used with `--parser <name>`) */
+  name: string;
+  /** Extract test outcomes from a completed run (empty array if none recognized) */
+  parse(run: TestRunResult, context: ParseContext): TestCaseOutcome[];
+  /** Whether the run's output looks like this parser's format (enables automatic detection) */
+  matches?(run: TestRunResult): boolean;
+}
+
+/**
+ * Kind of flakiness
+ * - failure: the test intermittently fails
+ * - hang: the test command intermittently exceeds the run timeout
+ */
+export type FlakinessCategory = 'failure' | 'hang';
+
+/**
+ * Confidence interval for a failure rate
+ */
+export interface ConfidenceInterval {
+  /** Lower bound of the failure rate percentage (0-100) */
+  lower: number;
+  /** Upper bound of the failure rate percentage (0-100) */
+  upper: number;
+  /** Confidence level percentage (e.g. 95) */
+  confidence: number;
+  /** Interval method */
+  method: 'wilson';
+}
+
+/**
+ * Summary of run durations in milliseconds
+ */
+export interface DurationStats {
+  /** Shortest duration */
+  min: number;
+  /** Median duration */
+  median: number;
+  /** 95th percentile duration */
+  p95: number;
+  /** Longest duration */
+  max: number;
+  /** Standard deviation divided by the mean (0 when durations never vary) */
+  coefficientOfVariation: number;
+}
+
+/**
+ * Failed runs that share a failure signature (most likely the same bug)
+ */
+export interface FailureCluster {
+  /** Hash of the first assertion or stack frame line, after normalizing run-specific details */
+  signature: string;
+  /** Number of failed runs with this signature */
+  count: number;
+  /** Run numbers (1-based) of the failed runs */
+  runNumbers: number[];
+  /** Output lines of the first run with this signature, starting at the failure */
+  excerpt: string;
+}
+
+/**
+ * Region where the output of a passing and a failing run differ
+ */
+export interface DiffHunk {
+  /** Output stream the lines come from */
+  stream: 'stdout' | 'stderr';
+  /** Line number (1-based) where the region starts in the passing run's output */
+  passingLine: number;
+  /** Line number (1-based) where the region starts in the failing run's output */
+  failingLine: number;
+  /** Normalized lines prefixed with ' ' (in both runs), '-' (passing run only) or '+' (failing run only) */
+  lines: string[];
+}
+
+/**
+ * Diff of the normalized output of a passing run against a failing run
+ */
+export interface OutputDiff {
+  /** Run number of the passing run */
+  passingRun: number;
+  /** Run number of the failing run */
+  failingRun: number;
+  /** Differing regions with up to 2 unchanged lines of context */
+  hunks: DiffHunk[];
+  /** Whether hunks were cut off at 40 diff lines */
+  truncated?: boolean;
 }
 
 /**
@@ -107,6 +401,24 @@ export interface TestFlakiness {
   totalRuns: number;
   /** Failure rate as a percentage (0-100) */
   failureRate: number;
+  /** Kind of flakiness (absent for ordinary failures); for hangs, `failed` counts timed-out runs */
+  category?: FlakinessCategory;
+  /** Confidence interval for the true failure rate (Wilson score) */
+  confidenceInterval?: ConfidenceInterval;
+  /** Probability of at least this many failures if the true failure rate were the threshold */
+  pValue?: number;
+  /** Runs needed to see at least one failure at this failure rate, at the interval's confidence level */
+  runsToDetect?: number;
+  /** Correlation (-1 to 1) between failing and taking long (absent when durations are unknown or never vary) */
+  durationCorrelation?: number;
+  /** Whether failures happen in the slowest runs (correlation of at least 0.5), often a timeout in disguise */
+  slowFailures?: boolean;
+  /** Failed runs of this test grouped by failure signature, most common first */
+  failureClusters?: FailureCluster[];
+  /** Output diff of a passing run against a run from the most common failure cluster (absent for hangs and identical outputs) */
+  diff?: OutputDiff;
+  /** Whether the test has an unexpired quarantine entry (present when quarantined) */
+  quarantined?: boolean;
 }
 
 /**
@@ -125,6 +437,38 @@ export interface DetectionReport {
   flakyTests: TestFlakiness[];
   /** All test run results */
   runs: TestRunResult[];
+  /** Whether early stopping ended detection before all requested runs */
+  stoppedEarly?: boolean;
+  /** Requested confidence percentage (present when `confidence` is set) */
+  targetConfidence?: number;
+  /** Confidence percentage reached for the least certain test (present when `confidence` is set) */
+  confidence?: number;
+  /** Whether detection was aborted; the report then covers only the completed runs */
+  aborted?: boolean;
+  /** Number of runs per exit code, keyed by signal name for runs terminated by a signal (absent when no run completed) */
+  exitCodes?: Record<string, number>;
+  /** All failed runs grouped by failure signature, most common first (absent when no run failed) */
+  failureClusters?: FailureCluster[];
+  /** Run duration statistics (absent when no run completed) */
+  durationStats?: DurationStats;
+  /** Time budget in milliseconds (present when `maxDurationMs` is set) */
+  durationBudgetMs?: number;
+  /** Time spent running tests in milliseconds (present when `maxDurationMs` is set) */
+  durationMs?: number;
+  /** Number of runs killed for exceeding the timeout (present when a timeout is set) */
+  timedOutRuns?: number;
+  /** Result parser used for per-test tracking (absent when no test framework was recognized) */
+  framework?: string;
+  /** Shard this report covers (present on sharded detections) */
+  shard?: ShardSpec;
+  /** Machine detection ran on (absent on merged reports, whose runs record it instead) */
+  hostname?: string;
+  /** Number of partial reports combined into this report (present on merged reports) */
+  mergedReports?: number;
+  /** Quarantine entries past their expiry date (present when the quarantine file has any) */
+  expiredQuarantine?: QuarantineEntry[];
+  /** Why the report could not be appended to the history (the detection itself still counts) */
+  historyError?: string;
   /** Error message if detection failed */
   error?: string;
 }
@@ -135,12 +479,219 @@ export interface DetectionReport {
  */
 export type FlakinessReport = DetectionReport;
 
+/**
+ * Share of a detection split across processes or machines
+ */
+export interface ShardSpec {
+  /** 1-based index of this shard */
+  index: number;
+  /** Total number of shards */
+  count: number;
+}
+
+/**
+ * Pass/fail counts of a single test in a history entry
+ */
+export interface HistoryTestSummary {
+  /** Name or identifier of the test */
+  testName: string;
+  /** Number of runs in which the test passed */
+  passed: number;
+  /** Number of runs in which the test failed */
+  failed: number;
+  /** Kind of flakiness tracked (absent for ordinary pass/fail counts) */
+  category?: FlakinessCategory;
+  /** Whether the test was reported as flaky */
+  flaky: boolean;
+}
+
+/**
+ * Compact summary of a detection report, stored as one line of the history file
+ */
+export interface HistoryEntry {
+  /** When detection finished (ISO 8601) */
+  timestamp: string;
+  /** Test command that was run */
+  command: string;
+  /** Git commit the tests ran against (absent outside a git repository) */
+  commit?: string;
+  /** Total number of runs */
+  totalRuns: number;
+  /** Number of runs that passed */
+  passedRuns: number;
+  /** Number of runs that failed */
+  failedRuns: number;
+  /** Per-test pass/fail counts */
+  tests: HistoryTestSummary[];
+}
+
+/**
+ * Options for querying the flakiness history
+ */
+export interface HistoryOptions {
+  /** Directory of the flakiness history (default: .flaky-history) */
+  dir?: string;
+  /** Only include the test with this name */
+  test?: string;
+  /** Only include entries recorded for this test command */
+  command?: string;
+  /** Only include entries recorded at or after this time */
+  since?: Date;
+}
+
+/**
+ * Outcome of a test in one recorded detection
+ */
+export interface TestHistoryPoint {
+  /** When detection finished (ISO 8601) */
+  timestamp: string;
+  /** Git commit the tests ran against */
+  commit?: string;
+  /** Number of runs in which the test passed */
+  passed: number;
+  /** Number of runs in which the test failed */
+  failed: number;
+  /** Whether the test was reported as flaky */
+  flaky: boolean;
+}
+
+/**
+ * Flakiness of a single test over time
+ */
+export interface TestHistory {
+  /** Name or identifier of the test */
+  testName: string;
+  /** Kind of flakiness tracked (absent for ordinary pass/fail counts) */
+  category?: FlakinessCategory;
+  /** Number of recorded detections that ran the test */
+  detections: number;
+  /** Number of recorded detections that reported the test as flaky */
+  flakyDetections: number;
+  /** Runs in which the test passed, across all detections */
+  passed: number;
+  /** Runs in which the test failed, across all detections */
+  failed: number;
+  /** Failure rate across all detections as a percentage (0-100) */
+  failureRate: number;
+  /** First detection that ran the test (ISO 8601) */
+  firstSeen: string;
+  /** Last detection that ran the test (ISO 8601) */
+  lastSeen: string;
+  /** First detection that reported the test as flaky (ISO 8601) */
+  firstFlaky?: string;
+  /** Last detection that reported the test as flaky (ISO 8601) */
+  lastFlaky?: string;
+  /** Outcome of the test in each detection, oldest first */
+  points: TestHistoryPoint[];
+}
+
+/**
+ * Outcome of a test in one of the compared reports
+ */
+export interface TestOutcomeSummary {
+  /** Number of runs in which the test passed */
+  passed: number;
+  /** Number of runs in which the test failed */
+  failed: number;
+  /** Failure rate as a percentage (0-100) */
+  failureRate: number;
+  /** Whether the report lists the test as flaky */
+  flaky: boolean;
+}
+
+/**
+ * How a test changed between two reports
+ * - new-flaky: flaky now, but not before (or not run before)
+ * - fixed: flaky before, no longer flaky (and not failing significantly more often)
+ * - worse: failure rate increased significantly
+ * - better: failure rate decreased significantly
+ */
+export type TestChange = 'new-flaky' | 'fixed' | 'worse' | 'better';
+
+/**
+ * Change of a single test between two reports
+ */
+export interface TestComparison {
+  /** Name or identifier of the test */
+  testName: string;
+  /** Kind of flakiness tracked (absent for ordinary pass/fail counts) */
+  category?: FlakinessCategory;
+  /** How the test changed */
+  change: TestChange;
+  /** Outcome in the earlier report (absent for tests it did not run) */
+  before?: TestOutcomeSummary;
+  /** Outcome in the later report */
+  after: TestOutcomeSummary;
+  /** Two-sided Fisher exact test p-value of the failure rate change (absent when the test was not run before) */
+  pValue?: number;
+}
+
+/**
+ * Options for comparing two reports
+ */
+export interface CompareOptions {
+  /** p-value below which a failure rate change counts as significant (default: 0.05) */
+  significance?: number;
+}
+
+/**
+ * Flakiness changes between two detection reports
+ */
+export interface ReportComparison {
+  /** Tests flaky in the later report but not in the earlier one */
+  newFlaky: TestComparison[];
+  /** Tests flaky in the earlier report but not in the later one */
+  fixed: TestComparison[];
+  /** Other tests whose failure rate changed significantly */
+  changed: TestComparison[];
+  /** Number of tests flaky in both reports */
+  stillFlaky: number;
+  /** Significance level used for failure rate changes */
+  significance: number;
+}
+
+/**
+ * Options for merging partial reports
+ */
+export interface MergeOptions {
+  /** Flakiness threshold percentage the merged runs are checked against (default: 0) */
+  threshold?: number;
+  /** Confidence level percentage for confidence intervals (default: 95) */
+  confidence?: number;
+  /** Output normalization used when clustering failures and diffing outputs (default: every built-in rule) */
+  normalize?: NormalizeOptions;
+}
+
+/**
+ * Known flaky test excluded from blocking merges while it is being fixed
+ */
+export interface QuarantineEntry {
+  /** Name of the test, as reported in TestFlakiness.testName */
+  test: string;
+  /** Why the test is quarantined (e.g. a link to the tracking issue) */
+  reason: string;
+  /** Who is responsible for fixing the test */
+  owner?: string;
+  /** Date the test was quarantined (YYYY-MM-DD) */
+  added: string;
+  /** Last day the quarantine applies (YYYY-MM-DD); absent for no expiry */
+  expires?: string;
+}
+
+/**
+ * Per-call options for CompiledDetector.run()
+ */
+export interface RunOptions {
+  /** Signal that stops detection when aborted; the report holds the runs completed so far */
+  signal?: AbortSignal;
+}
+
 /**
  * Compiled detector interface for pre-compiled test execution
  */
 export interface CompiledDetector {
   /** Run the detector with specified number of runs */
-  run(runs: number): Promise<Result<DetectionReport>>;
+  run(runs: number, options?: RunOptions): Promise<Result<DetectionReport>>;
 
   /** Get the test command being detected */
   getCommand(): string;
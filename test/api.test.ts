@@ -4,7 +4,8 @@
 
 import { test } from 'node:test';
 import assert from 'node:assert/strict';
-import { detect, isFlaky, compileDetector } from '../src/index.js';
+import { detect, isFlaky, compileDetector, registerParser } from '../src/index.js';
+import type { ProgressEvent, ResultParser } from '../src/index.js';
 
 /**
  * Helper: Create a test command that succeeds
@@ -213,6 +214,25 @@ test('isFlaky() - default runs (5)', async () => {
   }
 });
 
+test('isFlaky() - stops as soon as flakiness is proven', async () => {
+  let completedRuns = 0;
+  const result = await isFlaky({
+    test: createFlakyCommand(),
+    runs: 100,
+    onProgress: (event) => {
+      if (event.type === 'run-complete') {
+        completedRuns++;
+      }
+    },
+  });
+
+  assert(result.ok);
+  if (result.ok) {
+    assert.strictEqual(result.value, true);
+  }
+  assert.strictEqual(completedRuns, 2);
+});
+
 test('isFlaky() - invalid test command', async () => {
   const result = await isFlaky({
     test: '',
@@ -413,6 +433,256 @@ test('Result type - compileDetector().run() follows Result<T> pattern', async ()
   }
 });
 
+// ============================================================================
+// Result Parser Option Tests
+// ============================================================================
+
+/**
+ * Helper: Parser for a simple "PASS name" / "FAIL name" line format
+ */
+const lineParser: ResultParser = {
+  name: 'api-test-lines',
+  parse: (run) => run.stdout.split('\n')
+    .map((line) => /^(PASS|FAIL) (.+)$/.exec(line))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => ({ name: match[2]!, status: match[1] === 'PASS' ? 'passed' : 'failed' })),
+};
+
+test('detect() - custom parser object reports individual tests', async () => {
+  const counterFile = `/tmp/flaky-parser-counter-${Date.now()}-${Math.random()}.txt`;
+  const result = await detect({
+    test: `bash -c 'if [ ! -f ${counterFile} ]; then echo 0 > ${counterFile}; fi; COUNT=$(cat ${counterFile}); echo $((COUNT + 1)) > ${counterFile}; echo "PASS stable"; if [ $((COUNT % 2)) -eq 0 ]; then echo "PASS racy"; else echo "FAIL racy"; exit 1; fi'`,
+    runs: 4,
+    parser: lineParser,
+  });
+
+  assert(result.ok);
+  if (result.ok) {
+    assert.deepStrictEqual(result.value.flakyTests.map((t) => t.testName), ['racy']);
+    assert.strictEqual(result.value.flakyTests[0]!.failureRate, 50);
+  }
+});
+
+test('isFlaky() and compileDetector() - accept registered parser by name', async () => {
+  registerParser(lineParser);
+
+  const flaky = await isFlaky({ test: 'echo "PASS only"', runs: 2, parser: 'api-test-lines' });
+  assert(flaky.ok);
+  if (flaky.ok) {
+    assert.strictEqual(flaky.value, false);
+  }
+
+  const detector = compileDetector({ test: 'echo "PASS only"', parser: 'api-test-lines' });
+  const result = await detector.run(2);
+  assert(result.ok);
+  if (result.ok) {
+    assert.deepStrictEqual(result.value.runs[0]!.tests, [{ name: 'only', status: 'passed' }]);
+  }
+});
+
+test('detect() - unknown parser name returns error', async () => {
+  const result = await detect({ test: successCommand, runs: 2, parser: 'no-such-parser' });
+
+  assert.strictEqual(result.ok, false);
+  if (!result.ok) {
+    assert.match(result.error.message, /unknown parser/i);
+  }
+});
+
+test('detect() - parser errors do not crash detection', async () => {
+  const result = await detect({
+    test: successCommand,
+    runs: 2,
+    parser: { name: 'throws', parse: () => { throw new Error('parser bug'); } },
+  });
+
+  assert(result.ok);
+  if (result.ok) {
+    assert.strictEqual(result.value.runs[0]!.tests, undefined);
+  }
+});
+
+// ============================================================================
+// Concurrency Tests
+// ============================================================================
+
+test('detect() - concurrency runs iterations in parallel', async () => {
+  const start = Date.now();
+  const result = await detect({ test: 'sleep 0.5', runs: 4, concurrency: 4 });
+  const elapsed = Date.now() - start;
+
+  assert(result.ok);
+  if (result.ok) {
+    assert.strictEqual(result.value.totalRuns, 4);
+    assert.strictEqual(result.value.passedRuns, 4);
+    assert(elapsed < 1500, `Expected parallel runs to overlap, took ${elapsed}ms`);
+  }
+});
+
+test('detect() - concurrency preserves run numbers and event order', async () => {
+  const events: ProgressEvent[] = [];
+  const result = await detect({
+    test: `bash -c 'sleep 0.$((RANDOM % 3)); echo done'`,
+    runs: 6,
+    concurrency: 3,
+    onProgress: (event) => events.push(event),
+  });
+
+  assert(result.ok);
+  if (result.ok) {
+    assert.deepStrictEqual(result.value.runs.map((run) => run.runNumber), [1, 2, 3, 4, 5, 6]);
+    assert(result.value.runs.every((run) => run.stdout.trim() === 'done'));
+  }
+
+  const runStarts = events.flatMap((event) => (event.type === 'run-start' ? [event.runNumber] : []));
+  const runCompletes = events.flatMap((event) => (event.type === 'run-complete' ? [event.runNumber] : []));
+  assert.deepStrictEqual(runStarts, [1, 2, 3, 4, 5, 6]);
+  assert.deepStrictEqual([...runCompletes].sort((a, b) => a - b), [1, 2, 3, 4, 5, 6]);
+  assert.strictEqual(events[0]!.type, 'start');
+  assert.strictEqual(events[events.length - 1]!.type, 'complete');
+});
+
+test('isFlaky() and compileDetector() - accept concurrency', async () => {
+  const flaky = await isFlaky({ test: createFlakyCommand(), runs: 4, concurrency: 2 });
+  assert(flaky.ok);
+  if (flaky.ok) {
+    assert.strictEqual(flaky.value, true);
+  }
+
+  const detector = compileDetector({ test: failCommand, concurrency: 2 });
+  const result = await detector.run(3);
+  assert(result.ok);
+  if (result.ok) {
+    assert.strictEqual(result.value.failedRuns, 3);
+    assert.deepStrictEqual(result.value.runs.map((run) => run.runNumber), [1, 2, 3]);
+  }
+});
+
+test('detect() - event loop stays free while a run executes', async () => {
+  let ticks = 0;
+  const interval = setInterval(() => ticks++, 50);
+
+  try {
+    const result = await detect({ test: 'sleep 0.5', runs: 1 });
+    assert(result.ok);
+  } finally {
+    clearInterval(interval);
+  }
+
+  assert(ticks >= 3, `Expected timers to fire during the run, got ${ticks} ticks`);
+});
+
+test('detect() - invalid concurrency returns error', async () => {
+  for (const concurrency of [0, 101, 1.5]) {
+    const result = await detect({ test: successCommand, runs: 2, concurrency });
+
+    assert.strictEqual(result.ok, false);
+    if (!result.ok) {
+      assert.match(result.error.message, /concurrency must be an integer between 1 and 100/i);
+    }
+  }
+});
+
+// ============================================================================
+// Cancellation Tests
+// ============================================================================
+
+test('detect() - abort returns partial report of completed runs', async () => {
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 500);
+
+  const start = Date.now();
+  const result = await detect({ test: 'sleep 0.2', runs: 20, signal: controller.signal });
+  const elapsed = Date.now() - start;
+
+  assert(result.ok);
+  if (result.ok) {
+    assert.strictEqual(result.value.aborted, true);
+    assert(result.value.totalRuns >= 1 && result.value.totalRuns < 20);
+    assert.strictEqual(result.value.runs.length, result.value.totalRuns);
+    assert.strictEqual(result.value.passedRuns, result.value.totalRuns);
+    assert.deepStrictEqual(
+      result.value.runs.map((run) => run.runNumber),
+      result.value.runs.map((_, i) => i + 1)
+    );
+  }
+  assert(elapsed < 2000, `Expected abort to stop detection early, took ${elapsed}ms`);
+});
+
+test('detect() - abort kills in-flight runs', async () => {
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 200);
+
+  const start = Date.now();
+  const result = await detect({ test: 'sleep 10', runs: 4, concurrency: 2, signal: controller.signal });
+  const elapsed = Date.now() - start;
+
+  assert(result.ok);
+  if (result.ok) {
+    assert.strictEqual(result.value.aborted, true);
+    assert.strictEqual(result.value.totalRuns, 0);
+    assert.deepStrictEqual(result.value.runs, []);
+  }
+  assert(elapsed < 3000, `Expected in-flight runs to be killed, took ${elapsed}ms`);
+});
+
+test('detect() - already aborted signal runs nothing', async () => {
+  const result = await detect({ test: successCommand, runs: 5, signal: AbortSignal.abort() });
+
+  assert(result.ok);
+  if (result.ok) {
+    assert.strictEqual(result.value.aborted, true);
+    assert.strictEqual(result.value.totalRuns, 0);
+  }
+});
+
+test('isFlaky() - aborted check without flakiness returns error', async () => {
+  const result = await isFlaky({ test: successCommand, runs: 5, signal: AbortSignal.abort() });
+
+  assert.strictEqual(result.ok, false);
+  if (!result.ok) {
+    assert.match(result.error.message, /aborted/i);
+  }
+});
+
+test('compileDetector() - run() accepts a signal', async () => {
+  const detector = compileDetector({ test: successCommand });
+  const result = await detector.run(3, { signal: AbortSignal.abort() });
+
+  assert(result.ok);
+  if (result.ok) {
+    assert.strictEqual(result.value.aborted, true);
+  }
+
+  const completed = await detector.run(2);
+  assert(completed.ok);
+  if (completed.ok) {
+    assert.strictEqual(completed.value.aborted, undefined);
+    assert.strictEqual(completed.value.totalRuns, 2);
+  }
+});
+
+test('detect() - duration budget replaces a fixed run count', async () => {
+  const result = await detect({ test: 'sleep 0.1', maxDurationMs: 700 });
+
+  assert(result.ok);
+  if (result.ok) {
+    assert(result.value.totalRuns >= 3 && result.value.totalRuns < 1000, `Expected runs to fill the budget, got ${result.value.totalRuns}`);
+    assert.strictEqual(result.value.durationBudgetMs, 700);
+    assert(result.value.durationMs !== undefined && result.value.durationMs <= 1000);
+  }
+});
+
+test('detect() - duration budget is still capped by runs', async () => {
+  const result = await detect({ test: successCommand, runs: 3, maxDurationMs: 60000 });
+
+  assert(result.ok);
+  if (result.ok) {
+    assert.strictEqual(result.value.totalRuns, 3);
+    assert.strictEqual(result.value.durationBudgetMs, 60000);
+  }
+});
+
 // ============================================================================
 // Backward Compatibility Tests
 // ============================================================================
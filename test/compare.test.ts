@@ -0,0 +1,136 @@
+/**
+ * Tests for comparing detection reports
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compareReports, fisherExactTest, detectFlakiness } from '../src/index.js';
+import type { DetectionReport } from '../src/index.js';
+import { createTestRun } from './helpers.js';
+
+/**
+ * Helper: Create a report with the given failures per test out of `runs` runs
+ */
+function createReport(failures: Record<string, number>, runs = 20): DetectionReport {
+  const runResults = Array.from({ length: runs }, (_, index) =>
+    createTestRun(Object.fromEntries(Object.entries(failures).map(([name, failed]) => [name, index < failed ? 'failed' : 'passed'])))
+  );
+  const flakyTests = Object.entries(failures)
+    .filter(([, failed]) => failed > 0 && failed < runs)
+    .map(([testName, failed]) => ({ testName, passed: runs - failed, failed, totalRuns: runs, failureRate: (failed / runs) * 100 }));
+  const failedRuns = runResults.filter((run) => !run.success).length;
+
+  return { success: true, totalRuns: runs, passedRuns: runs - failedRuns, failedRuns, flakyTests, runs: runResults };
+}
+
+// ============================================================================
+// Fisher Exact Test
+// ============================================================================
+
+test('compare - fisherExactTest', async (t) => {
+  await t.test('matches known values', () => {
+    assert(Math.abs(fisherExactTest(0, 10, 5, 10) - 0.03251) < 1e-4);
+    assert(Math.abs(fisherExactTest(1, 20, 9, 20) - 0.00836) < 1e-4);
+  });
+
+  await t.test('is symmetric', () => {
+    assert(Math.abs(fisherExactTest(2, 30, 9, 25) - fisherExactTest(9, 25, 2, 30)) < 1e-12);
+  });
+
+  await t.test('finds no evidence in equal or degenerate samples', () => {
+    assert.strictEqual(fisherExactTest(3, 10, 3, 10), 1);
+    assert.strictEqual(fisherExactTest(0, 10, 0, 10), 1);
+    assert.strictEqual(fisherExactTest(0, 0, 4, 10), 1);
+  });
+});
+
+// ============================================================================
+// Report Comparison
+// ============================================================================
+
+test('compare - compareReports', async (t) => {
+  await t.test('finds tests that became flaky', () => {
+    const comparison = compareReports(createReport({ login: 0, signup: 0 }), createReport({ login: 4, signup: 0, search: 2 }));
+
+    assert.deepStrictEqual(
+      comparison.newFlaky.map(({ testName, change, before }) => ({ testName, change, before: before?.failureRate })),
+      [
+        { testName: 'login', change: 'new-flaky', before: 0 },
+        { testName: 'search', change: 'new-flaky', before: undefined },
+      ]
+    );
+    assert.deepStrictEqual(comparison.newFlaky[0]?.after, { passed: 16, failed: 4, failureRate: 20, flaky: true });
+    assert.strictEqual(comparison.newFlaky[1]?.pValue, undefined);
+    assert.deepStrictEqual(comparison.fixed, []);
+  });
+
+  await t.test('finds fixed tests', () => {
+    const comparison = compareReports(createReport({ login: 5 }), createReport({ login: 0 }));
+
+    assert.deepStrictEqual(comparison.fixed.map((test) => [test.testName, test.change]), [['login', 'fixed']]);
+    assert.deepStrictEqual(comparison.newFlaky, []);
+  });
+
+  await t.test('reports flaky tests that now always fail as worse', () => {
+    const comparison = compareReports(createReport({ login: 2, signup: 17 }), createReport({ login: 20, signup: 20 }));
+
+    assert.deepStrictEqual(comparison.fixed.map((test) => test.testName), ['signup']);
+    assert.deepStrictEqual(
+      comparison.changed.map(({ testName, change, after }) => ({ testName, change, failureRate: after.failureRate })),
+      [{ testName: 'login', change: 'worse', failureRate: 100 }]
+    );
+    assert(comparison.changed[0]!.pValue! < 0.05);
+  });
+
+  await t.test('reports significant failure rate changes only', () => {
+    const comparison = compareReports(
+      createReport({ checkout: 1, cart: 2, search: 15 }, 40),
+      createReport({ checkout: 20, cart: 4, search: 2 }, 40)
+    );
+
+    assert.strictEqual(comparison.stillFlaky, 3);
+    assert.deepStrictEqual(
+      comparison.changed.map(({ testName, change }) => ({ testName, change })),
+      [
+        { testName: 'checkout', change: 'worse' },
+        { testName: 'search', change: 'better' },
+      ]
+    );
+    assert(comparison.changed.every((test) => test.pValue !== undefined && test.pValue < 0.05));
+  });
+
+  await t.test('uses the configured significance level', () => {
+    const before = createReport({ cart: 2 }, 40);
+    const after = createReport({ cart: 9 }, 40);
+
+    assert.strictEqual(compareReports(before, after).changed.length, 1);
+    assert.strictEqual(compareReports(before, after, { significance: 0.01 }).changed.length, 0);
+    assert.strictEqual(compareReports(before, after, { significance: 0.01 }).significance, 0.01);
+    assert.throws(() => compareReports(before, after, { significance: 1 }), /Significance/);
+  });
+
+  await t.test('works on reports saved without runs', () => {
+    const before = { ...createReport({ login: 5 }), runs: [] };
+    const after = { ...createReport({ login: 0, search: 3 }), runs: [] };
+
+    const comparison = compareReports(before, after);
+
+    assert.deepStrictEqual(comparison.newFlaky.map((test) => test.testName), ['search']);
+    // Without runs, only flaky tests are known: login is simply absent from the later report
+    assert.deepStrictEqual(comparison.fixed, []);
+  });
+});
+
+test('compare - detections of the same command before and after a change', async () => {
+  const before = await detectFlakiness({ testCommand: 'exit 0', runs: 10 });
+  const counterFile = `/tmp/compare-counter-${Date.now()}-${Math.random()}.txt`;
+  const after = await detectFlakiness({
+    testCommand: `bash -c 'COUNT=$(( $(cat ${counterFile} 2>/dev/null || echo 0) + 1 )); echo $COUNT > ${counterFile}; [ $((COUNT % 2)) -eq 1 ]'`,
+    runs: 10,
+  });
+
+  const comparison = compareReports(JSON.parse(JSON.stringify(before)), JSON.parse(JSON.stringify(after)));
+
+  assert.strictEqual(comparison.newFlaky[0]?.testName, 'Test Suite');
+  assert(Math.abs((comparison.newFlaky[0]?.pValue ?? 0) - 0.03251) < 1e-4);
+});
@@ -0,0 +1,153 @@
+/**
+ * Tests for pass-vs-fail output diffs
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffOutputs, diffRuns } from '../src/diff.js';
+import { calculateFlakyTests } from '../src/detector.js';
+import { detectFlakiness } from '../src/index.js';
+import type { TestRunResult } from '../src/index.js';
+import { createRun } from './helpers.js';
+
+// ============================================================================
+// Line Diff
+// ============================================================================
+
+test('diff - diffOutputs', async (t) => {
+  await t.test('reports a changed line with context', () => {
+    assert.deepStrictEqual(diffOutputs('ok 1\nok 2\n', 'ok 1\nnot ok 2\n', 'stdout'), [
+      { stream: 'stdout', passingLine: 1, failingLine: 1, lines: [' ok 1', '-ok 2', '+not ok 2', ' '] },
+    ]);
+  });
+
+  await t.test('returns nothing for equal outputs', () => {
+    assert.deepStrictEqual(diffOutputs('a\nb', 'a\nb', 'stdout'), []);
+    assert.deepStrictEqual(diffOutputs('', '', 'stderr'), []);
+  });
+
+  await t.test('keeps two lines of context and tracks line numbers', () => {
+    const passing = ['1', '2', '3', '4', '5', '6', '7'].join('\n');
+    const failing = ['1', '2', '3', '4', 'five', '6', '7'].join('\n');
+
+    assert.deepStrictEqual(diffOutputs(passing, failing, 'stdout'), [
+      { stream: 'stdout', passingLine: 3, failingLine: 3, lines: [' 3', ' 4', '-5', '+five', ' 6', ' 7'] },
+    ]);
+  });
+
+  await t.test('reports insertions and deletions', () => {
+    assert.deepStrictEqual(diffOutputs('a\nc', 'a\nb\nc', 'stdout')[0]?.lines, [' a', '+b', ' c']);
+    assert.deepStrictEqual(diffOutputs('a\nb\nc', 'a\nc', 'stdout')[0]?.lines, [' a', '-b', ' c']);
+  });
+
+  await t.test('splits distant changes into separate hunks', () => {
+    const passing = ['x', '1', '2', '3', '4', '5', '6', 'y'].join('\n');
+    const failing = ['X', '1', '2', '3', '4', '5', '6', 'Y'].join('\n');
+
+    const hunks = diffOutputs(passing, failing, 'stdout');
+
+    assert.strictEqual(hunks.length, 2);
+    assert.deepStrictEqual(hunks[0], { stream: 'stdout', passingLine: 1, failingLine: 1, lines: ['-x', '+X', ' 1', ' 2'] });
+    assert.deepStrictEqual(hunks[1], { stream: 'stdout', passingLine: 6, failingLine: 6, lines: [' 5', ' 6', '-y', '+Y'] });
+  });
+
+  await t.test('aligns unchanged lines between changes', () => {
+    const lines = diffOutputs('a\nb\nc\nd', 'a\nB\nc\nD', 'stdout')[0]?.lines;
+
+    assert.deepStrictEqual(lines, [' a', '-b', '+B', ' c', '-d', '+D']);
+  });
+});
+
+test('diff - diffRuns', async (t) => {
+  await t.test('diffs stdout and stderr after normalization', () => {
+    const passing = createRun(true, { stdout: 'started at 2026-01-08T10:00:00Z\nok', runNumber: 1 });
+    const failing = createRun(false, {
+      stdout: 'started at 2026-01-08T10:00:07Z\nok',
+      stderr: 'Error: connect ECONNREFUSED 127.0.0.1:5432',
+      runNumber: 2,
+    });
+
+    assert.deepStrictEqual(diffRuns(passing, failing), {
+      passingRun: 1,
+      failingRun: 2,
+      hunks: [{ stream: 'stderr', passingLine: 1, failingLine: 1, lines: ['-', '+Error: connect ECONNREFUSED 127.0.0.1:<port>'] }],
+    });
+  });
+
+  await t.test('is undefined when outputs only differ in run-specific details', () => {
+    const passing = createRun(true, { stdout: 'pid 100 listening on port 3000' });
+    const failing = createRun(false, { stdout: 'pid 200 listening on port 4000' });
+
+    assert.strictEqual(diffRuns(passing, failing), undefined);
+  });
+
+  await t.test('truncates long diffs', () => {
+    const passing = createRun(true, { stdout: Array.from({ length: 100 }, (_, i) => `line ${i}`).join('\n') });
+    const failing = createRun(false, { stdout: Array.from({ length: 100 }, (_, i) => `other ${i}`).join('\n') });
+
+    const diff = diffRuns(passing, failing);
+
+    assert(diff);
+    assert.strictEqual(diff.truncated, true);
+    assert.strictEqual(diff.hunks.reduce((sum, hunk) => sum + hunk.lines.length, 0), 40);
+  });
+
+  await t.test('handles large outputs', () => {
+    const passing = createRun(true, { stdout: Array.from({ length: 5000 }, (_, i) => `a ${i}`).join('\n') });
+    const failing = createRun(false, { stdout: Array.from({ length: 5000 }, (_, i) => `b ${i}`).join('\n') });
+
+    const diff = diffRuns(passing, failing);
+
+    assert.strictEqual(diff?.hunks[0]?.lines[0], '-a 0');
+  });
+});
+
+// ============================================================================
+// Detector Integration
+// ============================================================================
+
+test('diff - flaky tests carry a pass-vs-fail diff', () => {
+  const runs = [
+    createRun(true, { stdout: 'connecting\nconnected\nok' }),
+    createRun(false, { stdout: 'connecting\nretrying\nnot ok', stderr: 'Error: timeout' }),
+    createRun(true, { stdout: 'connecting\nconnected\nok' }),
+  ];
+
+  const [flaky] = calculateFlakyTests(runs, 0);
+
+  assert.strictEqual(flaky?.diff?.passingRun, 1);
+  assert.strictEqual(flaky?.diff?.failingRun, 2);
+  assert.deepStrictEqual(flaky?.diff?.hunks[0]?.lines, [' connecting', '-connected', '-ok', '+retrying', '+not ok']);
+});
+
+test('diff - per-test diffs use runs where the test passed and failed', () => {
+  const runs: TestRunResult[] = [
+    createRun(false, { stdout: 'one', tests: [{ name: 'a', status: 'passed' }, { name: 'b', status: 'failed' }] }),
+    createRun(true, { stdout: 'two', tests: [{ name: 'a', status: 'passed' }, { name: 'b', status: 'passed' }] }),
+    createRun(false, { stdout: 'three', tests: [{ name: 'a', status: 'failed' }, { name: 'b', status: 'passed' }] }),
+  ];
+
+  const flaky = calculateFlakyTests(runs, 0);
+
+  assert.deepStrictEqual(
+    flaky.map((entry) => [entry.testName, entry.diff?.passingRun, entry.diff?.failingRun]),
+    [
+      ['a', 1, 3],
+      ['b', 2, 1],
+    ]
+  );
+});
+
+test('diff - detectFlakiness() reports where outputs diverge', async () => {
+  const counterFile = `/tmp/diff-counter-${Date.now()}-${Math.random()}.txt`;
+  const report = await detectFlakiness({
+    testCommand: `bash -c 'COUNT=$(( $(cat ${counterFile} 2>/dev/null || echo 0) + 1 )); echo $COUNT > ${counterFile}; echo setup; if [ $COUNT -eq 2 ]; then echo "cache miss"; exit 1; fi; echo "cache hit"'`,
+    runs: 3,
+  });
+
+  assert.deepStrictEqual(report.flakyTests[0]?.diff, {
+    passingRun: 1,
+    failingRun: 2,
+    hunks: [{ stream: 'stdout', passingLine: 1, failingLine: 1, lines: [' setup', '-cache hit', '+cache miss', ' '] }],
+  });
+});
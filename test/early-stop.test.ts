@@ -0,0 +1,139 @@
+/**
+ * Tests for early stopping rules and detector integration
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isFlakinessProven, sprtDecide, shouldStopEarly } from '../src/early-stop.js';
+import { detectFlakiness } from '../src/index.js';
+
+/**
+ * Helper: Create a command that fails on the listed (1-based) invocations
+ */
+function createFailOnRunsCommand(failingRuns: number[]): string {
+  const counterFile = `/tmp/early-stop-counter-${Date.now()}-${Math.random()}.txt`;
+  const failing = failingRuns.map((run) => `[ $COUNT -eq ${run} ]`).join(' || ');
+  return `bash -c 'COUNT=$(( $(cat ${counterFile} 2>/dev/null || echo 0) + 1 )); echo $COUNT > ${counterFile}; if ${failing}; then exit 1; fi'`;
+}
+
+// ============================================================================
+// Stopping Rules
+// ============================================================================
+
+test('early stop - verdict rule', async (t) => {
+  await t.test('proves flakiness once a test passed and failed at threshold 0', () => {
+    assert.strictEqual(isFlakinessProven({ testName: 'a', passed: 1, failed: 1 }, 0, 100), true);
+    assert.strictEqual(isFlakinessProven({ testName: 'a', passed: 5, failed: 0 }, 0, 1), false);
+    assert.strictEqual(isFlakinessProven({ testName: 'a', passed: 0, failed: 5 }, 0, 1), false);
+  });
+
+  await t.test('accounts for remaining runs with a non-zero threshold', () => {
+    // 3 failures in 6 runs: 3/10 = 30% even if the 4 remaining runs pass
+    assert.strictEqual(isFlakinessProven({ testName: 'a', passed: 3, failed: 3 }, 20, 4), true);
+    // 3/16 = 18.75% could still drop below 20%
+    assert.strictEqual(isFlakinessProven({ testName: 'a', passed: 3, failed: 3 }, 20, 10), false);
+  });
+
+  await t.test('never stops on stable tests', () => {
+    const tallies = [{ testName: 'a', passed: 50, failed: 0 }];
+    assert.strictEqual(shouldStopEarly('verdict', tallies, 0, 1), false);
+    assert.strictEqual(shouldStopEarly('verdict', tallies, 10, 1), false);
+  });
+});
+
+test('early stop - sequential probability ratio test', async (t) => {
+  await t.test('decides stable after enough consecutive passes', () => {
+    assert.strictEqual(sprtDecide(3, 0, 10), undefined);
+    assert.strictEqual(sprtDecide(30, 0, 10), 'stable');
+  });
+
+  await t.test('decides flaky when failures clearly exceed the threshold', () => {
+    assert.strictEqual(sprtDecide(4, 6, 10), 'flaky');
+  });
+
+  await t.test('keeps running inside the indifference region', () => {
+    assert.strictEqual(sprtDecide(9, 1, 10), undefined);
+  });
+
+  await t.test('treats a 100% threshold as always stable', () => {
+    assert.strictEqual(sprtDecide(0, 5, 100), 'stable');
+  });
+
+  await t.test('stops when every test is statistically stable', () => {
+    const tallies = [
+      { testName: 'a', passed: 30, failed: 0 },
+      { testName: 'b', passed: 40, failed: 0 },
+    ];
+    assert.strictEqual(shouldStopEarly('sprt', tallies, 10, 100), true);
+    assert.strictEqual(shouldStopEarly('verdict', tallies, 10, 100), false);
+  });
+
+  await t.test('keeps running while a test is undecided', () => {
+    const tallies = [
+      { testName: 'a', passed: 30, failed: 0 },
+      { testName: 'b', passed: 3, failed: 0 },
+    ];
+    assert.strictEqual(shouldStopEarly('sprt', tallies, 10, 100), false);
+  });
+
+  await t.test('does not stop on consistently failing tests', () => {
+    assert.strictEqual(shouldStopEarly('sprt', [{ testName: 'a', passed: 0, failed: 20 }], 10, 100), false);
+  });
+
+  await t.test('falls back to the verdict rule at threshold 0', () => {
+    assert.strictEqual(shouldStopEarly('sprt', [{ testName: 'a', passed: 100, failed: 0 }], 0, 100), false);
+    assert.strictEqual(shouldStopEarly('sprt', [{ testName: 'a', passed: 1, failed: 1 }], 0, 100), true);
+  });
+});
+
+// ============================================================================
+// Detector Integration
+// ============================================================================
+
+test('early stop - detectFlakiness()', async (t) => {
+  await t.test('stops once flakiness is proven', async () => {
+    const report = await detectFlakiness({
+      testCommand: createFailOnRunsCommand([2]),
+      runs: 20,
+      earlyStop: true,
+    });
+
+    assert.strictEqual(report.success, true);
+    assert.strictEqual(report.totalRuns, 2);
+    assert.strictEqual(report.stoppedEarly, true);
+    assert.strictEqual(report.flakyTests.length, 1);
+  });
+
+  await t.test('runs everything when the suite is stable', async () => {
+    const report = await detectFlakiness({ testCommand: 'exit 0', runs: 5, earlyStop: true });
+
+    assert.strictEqual(report.totalRuns, 5);
+    assert.strictEqual(report.stoppedEarly, undefined);
+  });
+
+  await t.test('sprt stops once the suite is statistically stable', async () => {
+    const report = await detectFlakiness({ testCommand: 'exit 0', runs: 200, threshold: 10, earlyStop: 'sprt' });
+
+    assert.strictEqual(report.stoppedEarly, true);
+    assert(report.totalRuns < 200);
+    assert.deepStrictEqual(report.flakyTests, []);
+  });
+
+  await t.test('is off by default', async () => {
+    const report = await detectFlakiness({ testCommand: createFailOnRunsCommand([1]), runs: 4 });
+
+    assert.strictEqual(report.totalRuns, 4);
+    assert.strictEqual(report.stoppedEarly, undefined);
+  });
+
+  await t.test('rejects unknown modes', async () => {
+    const report = await detectFlakiness({
+      testCommand: 'exit 0',
+      runs: 2,
+      earlyStop: 'sometimes' as unknown as boolean,
+    });
+
+    assert.strictEqual(report.success, false);
+    assert.match(report.error ?? '', /early stop/i);
+  });
+});
@@ -4,8 +4,8 @@
 
 import { test } from 'node:test';
 import assert from 'node:assert/strict';
-import { formatJSON, formatText, formatMinimal, formatReport } from '../src/formatters.js';
-import { DetectionReport } from '../src/types.js';
+import { formatJSON, formatText, formatMinimal, formatReport, formatHistory, formatComparison, formatQuarantine } from '../src/formatters.js';
+import { DetectionReport, QuarantineEntry, ReportComparison, TestHistory } from '../src/types.js';
 
 // Test fixtures
 const createNoFlakyReport = (): DetectionReport => ({
@@ -56,6 +56,17 @@ const createFlakyReport = (): DetectionReport => ({
   ],
 });
 
+const createFlakyReportWithStatistics = (): DetectionReport => {
+  const report = createFlakyReport();
+  report.flakyTests[0] = {
+    ...report.flakyTests[0]!,
+    confidenceInterval: { lower: 10.78, upper: 60.32, confidence: 95, method: 'wilson' },
+    pValue: 0.00000123,
+    runsToDetect: 9,
+  };
+  return report;
+};
+
 const createMultipleFlakyReport = (): DetectionReport => ({
   success: true,
   totalRuns: 20,
@@ -122,6 +133,19 @@ test('formatJSON', async (t) => {
     assert.strictEqual(parsed.runs.length, 10);
   });
 
+  await t.test('includes flaky test statistics', () => {
+    const parsed = JSON.parse(formatJSON(createFlakyReportWithStatistics()));
+
+    assert.deepStrictEqual(parsed.flakyTests[0].confidenceInterval, {
+      lower: 10.78,
+      upper: 60.32,
+      confidence: 95,
+      method: 'wilson',
+    });
+    assert.strictEqual(parsed.flakyTests[0].pValue, 0.00000123);
+    assert.strictEqual(parsed.flakyTests[0].runsToDetect, 9);
+  });
+
   await t.test('formats error reports with error field', () => {
     const report = createErrorReport();
     const json = formatJSON(report);
@@ -171,6 +195,142 @@ test('formatText', async (t) => {
     assert(text.includes('30.0%'));
   });
 
+  await t.test('shows detected framework when present', () => {
+    const report = { ...createFlakyReport(), framework: 'tap' };
+
+    assert(formatText(report).includes('Framework: tap'));
+    assert(!formatText(createFlakyReport()).includes('Framework:'));
+  });
+
+  await t.test('shows time spent against the duration budget', () => {
+    const report = { ...createFlakyReport(), durationBudgetMs: 900000, durationMs: 871250 };
+
+    assert(formatText(report).includes('Duration: 871.3s (budget: 900.0s)'));
+    assert(!formatText(createFlakyReport()).includes('Duration:'));
+  });
+
+  await t.test('shows run duration statistics', () => {
+    const report = {
+      ...createFlakyReport(),
+      durationStats: { min: 850, median: 1200, p95: 4310, max: 4500, coefficientOfVariation: 0.625 },
+    };
+
+    assert(formatText(report).includes('Run Duration: min 850ms, median 1.2s, p95 4.3s, max 4.5s (CV 62.5%)'));
+  });
+
+  await t.test('flags failures in slow runs', () => {
+    const report = createFlakyReport();
+    report.flakyTests[0] = { ...report.flakyTests[0]!, durationCorrelation: 0.87, slowFailures: true };
+
+    assert(formatText(report).includes('Fails in slow runs (duration correlation: 0.87)'));
+    assert(!formatText(createFlakyReport()).includes('slow runs'));
+  });
+
+  await t.test('shows failure signature clusters beneath flaky tests', () => {
+    const report = createFlakyReport();
+    report.flakyTests[0] = {
+      ...report.flakyTests[0]!,
+      failureClusters: [
+        { signature: '3f2a9c1b04de', count: 2, runNumbers: [2, 5], excerpt: 'AssertionError: expected 200\nat test (api.test.ts:42:5)' },
+        { signature: '8e1d77a0c2b9', count: 1, runNumbers: [9], excerpt: 'Error: database locked' },
+      ],
+    };
+
+    const text = formatText(report);
+
+    assert(text.includes('Failure signatures:'));
+    assert(text.includes('      • 2× [3f2a9c1b04de] AssertionError: expected 200\n          at test (api.test.ts:42:5)'));
+    assert(text.includes('      • 1× [8e1d77a0c2b9] Error: database locked'));
+    assert(!formatText(createFlakyReport()).includes('Failure signatures:'));
+  });
+
+  await t.test('shows the pass-vs-fail output diff', () => {
+    const report = createFlakyReport();
+    report.flakyTests[0] = {
+      ...report.flakyTests[0]!,
+      diff: {
+        passingRun: 1,
+        failingRun: 4,
+        hunks: [{ stream: 'stdout', passingLine: 3, failingLine: 3, lines: [' setup', '-cache hit', '+cache miss'] }],
+        truncated: true,
+      },
+    };
+
+    const text = formatText(report);
+
+    assert(text.includes('Output diff (run 1 passed, run 4 failed):'));
+    assert(text.includes('      stdout @@ -3 +3 @@\n         setup\n        -cache hit\n        +cache miss'));
+    assert(text.includes('(diff truncated)'));
+    assert(!formatText(createFlakyReport()).includes('Output diff'));
+  });
+
+  await t.test('shows timed-out runs and intermittent hangs', () => {
+    const report = {
+      ...createFlakyReport(),
+      timedOutRuns: 3,
+      flakyTests: [{ testName: 'Test Suite', passed: 7, failed: 3, totalRuns: 10, failureRate: 30, category: 'hang' as const }],
+    };
+    const text = formatText(report);
+
+    assert(text.includes('Timed Out: 3'));
+    assert(text.includes('Test Suite (intermittent hang)'));
+    assert(text.includes('Timed Out: 3/10 (30.0%)'));
+    assert(!formatText(createFlakyReport()).includes('Timed Out'));
+  });
+
+  await t.test('shows exit codes when runs failed', () => {
+    const report = { ...createFlakyReport(), exitCodes: { '0': 6, SIGSEGV: 1, '1': 3 } };
+
+    assert(formatText(report).includes('Exit Codes: 0 (6), 1 (3), SIGSEGV (1)'));
+    assert(!formatText({ ...createFlakyReport(), failedRuns: 0, exitCodes: { '0': 10 } }).includes('Exit Codes'));
+  });
+
+  await t.test('shows how many reports were merged', () => {
+    assert(formatText({ ...createFlakyReport(), mergedReports: 8 }).includes('Merged From: 8 reports'));
+    assert(!formatText(createFlakyReport()).includes('Merged From'));
+  });
+
+  await t.test('shows the shard of a partial report', () => {
+    assert(formatText({ ...createFlakyReport(), shard: { index: 3, count: 8 } }).includes('Shard: 3/8'));
+    assert(!formatText(createFlakyReport()).includes('Shard:'));
+  });
+
+  await t.test('marks quarantined tests and lists expired entries', () => {
+    const report = createFlakyReport();
+    report.flakyTests[0]!.quarantined = true;
+    report.expiredQuarantine = [{ test: 'login', reason: 'flaky', owner: 'alice', added: '2026-09-01', expires: '2026-10-01' }];
+    const text = formatText(report);
+
+    assert(text.includes('  • Test Suite [quarantined]'));
+    assert(text.includes('⏰ Expired Quarantine (fix these tests, or renew or remove their entries):\n  • login (expired 2026-10-01, owner alice)'));
+    assert(!formatText(createFlakyReport()).includes('quarantine'));
+  });
+
+  await t.test('marks aborted reports as partial', () => {
+    const report = { ...createFlakyReport(), aborted: true };
+
+    assert(formatText(report).includes(`Detection aborted (partial report of ${report.totalRuns} completed runs)`));
+    assert(!formatText(createFlakyReport()).includes('aborted'));
+  });
+
+  await t.test('shows achieved confidence when requested', () => {
+    const report = { ...createFlakyReport(), targetConfidence: 95, confidence: 97.25, stoppedEarly: true };
+    const text = formatText(report);
+
+    assert(text.includes('Confidence: 97.3% (target: 95%)'));
+    assert(text.includes('(stopped early)'));
+    assert(!formatText(createFlakyReport()).includes('Confidence:'));
+  });
+
+  await t.test('shows flaky test statistics', () => {
+    const text = formatText(createFlakyReportWithStatistics());
+
+    assert(text.includes('95% CI: 10.8%–60.3% (Wilson)'));
+    assert(text.includes('p-value vs threshold: < 0.0001'));
+    assert(text.includes('Runs to catch a failure (95% chance): 9'));
+    assert(!formatText(createFlakyReport()).includes('CI:'));
+  });
+
   await t.test('formats report with multiple flaky tests', () => {
     const report = createMultipleFlakyReport();
     const text = formatText(report);
@@ -362,3 +522,145 @@ test('format consistency', async (t) => {
     assert(text.includes('33.3%'));
   });
 });
+
+// ============================================================================
+// History Formatter
+// ============================================================================
+
+test('formatters - formatHistory', async (t) => {
+  const histories: TestHistory[] = [
+    {
+      testName: 'login',
+      detections: 3,
+      flakyDetections: 2,
+      passed: 27,
+      failed: 3,
+      failureRate: 10,
+      firstSeen: '2026-10-12T08:00:00.000Z',
+      lastSeen: '2026-10-19T08:00:00.000Z',
+      firstFlaky: '2026-10-13T08:00:00.000Z',
+      lastFlaky: '2026-10-19T08:00:00.000Z',
+      points: [
+        { timestamp: '2026-10-12T08:00:00.000Z', passed: 10, failed: 0, flaky: false },
+        { timestamp: '2026-10-13T08:00:00.000Z', passed: 8, failed: 2, flaky: true },
+        { timestamp: '2026-10-19T08:00:00.000Z', passed: 9, failed: 1, flaky: true },
+      ],
+    },
+    {
+      testName: 'signup',
+      detections: 1,
+      flakyDetections: 0,
+      passed: 10,
+      failed: 0,
+      failureRate: 0,
+      firstSeen: '2026-10-13T08:00:00.000Z',
+      lastSeen: '2026-10-13T08:00:00.000Z',
+      points: [{ timestamp: '2026-10-13T08:00:00.000Z', passed: 10, failed: 0, flaky: false }],
+    },
+  ];
+
+  await t.test('shows when each test was flaky', () => {
+    const text = formatHistory(histories, 'text');
+
+    assert(text.includes('📜 Flakiness History'));
+    assert(text.includes('  • login\n    Flaky in 2/3 detections (first 2026-10-13 08:00, last 2026-10-19 08:00)'));
+    assert(text.includes('    Failed: 3/30 runs (10.0%)\n    Timeline: ·✗✗ (oldest → newest)'));
+    assert(text.includes('  • signup\n    Never flaky in 1 detections'));
+    assert(formatHistory([], 'text').includes('No detections recorded'));
+  });
+
+  await t.test('lists tests that were ever flaky in minimal format', () => {
+    assert.strictEqual(formatHistory(histories, 'minimal'), 'login');
+  });
+
+  await t.test('outputs JSON', () => {
+    assert.deepStrictEqual(JSON.parse(formatHistory(histories, 'json')), histories);
+  });
+});
+
+// ============================================================================
+// Comparison Formatter
+// ============================================================================
+
+test('formatters - formatComparison', async (t) => {
+  const comparison: ReportComparison = {
+    newFlaky: [
+      {
+        testName: 'login',
+        change: 'new-flaky',
+        before: { passed: 20, failed: 0, failureRate: 0, flaky: false },
+        after: { passed: 16, failed: 4, failureRate: 20, flaky: true },
+        pValue: 0.1060,
+      },
+      { testName: 'search', change: 'new-flaky', after: { passed: 18, failed: 2, failureRate: 10, flaky: true } },
+    ],
+    fixed: [
+      {
+        testName: 'signup',
+        change: 'fixed',
+        before: { passed: 15, failed: 5, failureRate: 25, flaky: true },
+        after: { passed: 20, failed: 0, failureRate: 0, flaky: false },
+        pValue: 0.0471,
+      },
+    ],
+    changed: [
+      {
+        testName: 'checkout',
+        change: 'worse',
+        before: { passed: 39, failed: 1, failureRate: 2.5, flaky: true },
+        after: { passed: 20, failed: 20, failureRate: 50, flaky: true },
+        pValue: 0.00000123,
+      },
+    ],
+    stillFlaky: 1,
+    significance: 0.05,
+  };
+
+  await t.test('lists new flaky, fixed and changed tests', () => {
+    const text = formatComparison(comparison, 'text');
+
+    assert(text.includes('🔀 Flakiness Comparison'));
+    assert(text.includes('  New Flaky: 2\n  Fixed: 1\n  Still Flaky: 1\n  Significant Changes: 1'));
+    assert(text.includes('⚠️  New Flaky Tests:\n  • login: 0.0% → 20.0% (p = 0.1060)\n  • search: not run → 10.0%'));
+    assert(text.includes('✅ Fixed:\n  • signup: 25.0% → 0.0% (p = 0.0471)'));
+    assert(text.includes('📈 Failure Rate Changes (p < 0.05):\n  • checkout: 2.5% → 50.0% (p < 0.0001) - worse'));
+    assert(!text.includes('No new flakiness'));
+  });
+
+  await t.test('confirms when nothing got worse', () => {
+    const text = formatComparison({ ...comparison, newFlaky: [], changed: [] }, 'text');
+
+    assert(text.includes('✅ No new flakiness'));
+  });
+
+  await t.test('lists new flaky tests in minimal format', () => {
+    assert.strictEqual(formatComparison(comparison, 'minimal'), 'login\nsearch');
+    assert.deepStrictEqual(JSON.parse(formatComparison(comparison, 'json')), comparison);
+  });
+});
+
+test('formatters - formatQuarantine', async (t) => {
+  const entries: QuarantineEntry[] = [
+    { test: 'login', reason: 'https://github.com/org/repo/issues/42', owner: 'alice', added: '2026-10-01', expires: '2026-10-31' },
+    { test: 'signup', reason: 'race in fixture', added: '2026-09-01', expires: '2026-10-01' },
+    { test: 'search', reason: 'external service', added: '2026-09-15' },
+  ];
+  const now = new Date('2026-10-19T08:00:00Z');
+
+  await t.test('lists entries and flags expired ones', () => {
+    const text = formatQuarantine(entries, 'text', now);
+
+    assert(text.includes('🔒 Quarantined Tests'));
+    assert(
+      text.includes('  • login\n    Reason: https://github.com/org/repo/issues/42\n    Owner: alice\n    Added: 2026-10-01, expires 2026-10-31')
+    );
+    assert(text.includes('  • signup\n    Reason: race in fixture\n    Added: 2026-09-01, ⏰ expired 2026-10-01'));
+    assert(text.includes('    Added: 2026-09-15, no expiry'));
+    assert(formatQuarantine([], 'text').includes('No quarantined tests'));
+  });
+
+  await t.test('lists test names in minimal format', () => {
+    assert.strictEqual(formatQuarantine(entries, 'minimal'), 'login\nsignup\nsearch');
+    assert.deepStrictEqual(JSON.parse(formatQuarantine(entries, 'json')), entries);
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Shared helpers for the tests
+ */
+
+import assert from 'node:assert/strict';
+import type { TestRunResult } from '../src/index.js';
+
+/**
+ * Helper: Compare floating point values
+ */
+export function assertClose(actual: number, expected: number, tolerance = 1e-6): void {
+  assert(Math.abs(actual - expected) <= tolerance, `Expected ${actual} to be within ${tolerance} of ${expected}`);
+}
+
+/**
+ * Helper: Create a suite-level run; `fields` override its empty output
+ */
+export function createRun(success: boolean, fields: Partial<TestRunResult> = {}): TestRunResult {
+  return { success, exitCode: success ? 0 : 1, stdout: '', stderr: '', ...fields };
+}
+
+/**
+ * Helper: Create a run with per-test outcomes (it succeeds if every test passed)
+ */
+export function createTestRun(tests: Record<string, 'passed' | 'failed'>): TestRunResult {
+  const outcomes = Object.entries(tests).map(([name, status]) => ({ name, status }));
+  return createRun(outcomes.every((outcome) => outcome.status === 'passed'), { tests: outcomes });
+}
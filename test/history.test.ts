@@ -0,0 +1,226 @@
+/**
+ * Tests for the persistent flakiness history
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { summarizeReport, appendHistory, readHistory, testHistory, gitCommit } from '../src/history.js';
+import { detect, detectFlakiness, history } from '../src/index.js';
+import type { DetectionReport, HistoryEntry } from '../src/index.js';
+import { createTestRun } from './helpers.js';
+
+/**
+ * Helper: Create a history entry for a single test
+ */
+function createEntry(timestamp: string, testName: string, passed: number, failed: number, command = 'npm test'): HistoryEntry {
+  return {
+    timestamp,
+    command,
+    totalRuns: passed + failed,
+    passedRuns: passed,
+    failedRuns: failed,
+    tests: [{ testName, passed, failed, flaky: passed > 0 && failed > 0 }],
+  };
+}
+
+/**
+ * Helper: Create a temporary history directory
+ */
+function createHistoryDir(): string {
+  return mkdtempSync(join(tmpdir(), 'flaky-history-'));
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+test('history - summarizeReport', async (t) => {
+  await t.test('keeps per-test pass/fail counts and flags flaky tests', () => {
+    const report: DetectionReport = {
+      success: true,
+      totalRuns: 2,
+      passedRuns: 1,
+      failedRuns: 1,
+      flakyTests: [{ testName: 'login', passed: 1, failed: 1, totalRuns: 2, failureRate: 50 }],
+      runs: [createTestRun({ login: 'passed', logout: 'passed' }), createTestRun({ login: 'failed', logout: 'passed' })],
+    };
+
+    const entry = summarizeReport(report, 'npm test', 'a1b2c3d', new Date('2026-10-19T08:00:00Z'));
+
+    assert.deepStrictEqual(entry, {
+      timestamp: '2026-10-19T08:00:00.000Z',
+      command: 'npm test',
+      totalRuns: 2,
+      passedRuns: 1,
+      failedRuns: 1,
+      tests: [
+        { testName: 'login', passed: 1, failed: 1, flaky: true },
+        { testName: 'logout', passed: 2, failed: 0, flaky: false },
+      ],
+      commit: 'a1b2c3d',
+    });
+  });
+
+  await t.test('records intermittent hangs as their own entry', () => {
+    const report: DetectionReport = {
+      success: true,
+      totalRuns: 2,
+      passedRuns: 1,
+      failedRuns: 1,
+      flakyTests: [{ testName: 'Test Suite', passed: 1, failed: 1, totalRuns: 2, failureRate: 50, category: 'hang' }],
+      runs: [
+        { success: true, exitCode: 0, stdout: '', stderr: '' },
+        { success: false, exitCode: 1, stdout: '', stderr: '', timedOut: true },
+      ],
+    };
+
+    assert.deepStrictEqual(summarizeReport(report, 'npm test').tests, [
+      { testName: 'Test Suite', passed: 1, failed: 0, flaky: false },
+      { testName: 'Test Suite', passed: 1, failed: 1, category: 'hang', flaky: true },
+    ]);
+  });
+});
+
+test('history - appendHistory and readHistory', async (t) => {
+  await t.test('round-trips entries one JSON line each', async () => {
+    const dir = join(createHistoryDir(), 'nested');
+    const first = createEntry('2026-10-18T08:00:00.000Z', 'login', 9, 1);
+    const second = createEntry('2026-10-19T08:00:00.000Z', 'login', 10, 0);
+
+    await appendHistory(dir, first);
+    await appendHistory(dir, second);
+
+    assert.strictEqual(readFileSync(join(dir, 'history.jsonl'), 'utf-8').trim().split('\n').length, 2);
+    assert.deepStrictEqual(await readHistory(dir), [first, second]);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  await t.test('returns nothing without a history', async () => {
+    assert.deepStrictEqual(await readHistory(join(tmpdir(), `missing-history-${Date.now()}`)), []);
+  });
+
+  await t.test('skips corrupt lines', async () => {
+    const dir = createHistoryDir();
+    const entry = createEntry('2026-10-19T08:00:00.000Z', 'login', 9, 1);
+    await appendHistory(dir, entry);
+    appendFileSync(join(dir, 'history.jsonl'), '{"timestamp":"2026-10-19T09:00\n[1, 2]\n');
+
+    assert.deepStrictEqual(await readHistory(dir), [entry]);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  await t.test('finds the current git commit', async () => {
+    assert.match((await gitCommit()) ?? '', /^[0-9a-f]{40}$/);
+    assert.strictEqual(await gitCommit(tmpdir()), undefined);
+  });
+});
+
+// ============================================================================
+// Querying
+// ============================================================================
+
+test('history - testHistory', async (t) => {
+  const entries = [
+    createEntry('2026-10-12T08:00:00.000Z', 'login', 10, 0),
+    createEntry('2026-10-13T08:00:00.000Z', 'login', 8, 2),
+    createEntry('2026-10-13T08:00:00.000Z', 'signup', 10, 0, 'npm run e2e'),
+    createEntry('2026-10-19T08:00:00.000Z', 'login', 9, 1),
+  ];
+
+  await t.test('aggregates each test over time', () => {
+    const [login, signup] = testHistory(entries);
+
+    assert.deepStrictEqual(login, {
+      testName: 'login',
+      detections: 3,
+      flakyDetections: 2,
+      passed: 27,
+      failed: 3,
+      failureRate: 10,
+      firstSeen: '2026-10-12T08:00:00.000Z',
+      lastSeen: '2026-10-19T08:00:00.000Z',
+      firstFlaky: '2026-10-13T08:00:00.000Z',
+      lastFlaky: '2026-10-19T08:00:00.000Z',
+      points: [
+        { timestamp: '2026-10-12T08:00:00.000Z', passed: 10, failed: 0, flaky: false },
+        { timestamp: '2026-10-13T08:00:00.000Z', passed: 8, failed: 2, flaky: true },
+        { timestamp: '2026-10-19T08:00:00.000Z', passed: 9, failed: 1, flaky: true },
+      ],
+    });
+    assert.strictEqual(signup?.flakyDetections, 0);
+    assert.strictEqual(signup?.firstFlaky, undefined);
+  });
+
+  await t.test('filters by test, command and time', () => {
+    assert.deepStrictEqual(testHistory(entries, { test: 'signup' }).map((entry) => entry.testName), ['signup']);
+    assert.deepStrictEqual(testHistory(entries, { command: 'npm run e2e' }).map((entry) => entry.testName), ['signup']);
+    assert.strictEqual(testHistory(entries, { since: new Date('2026-10-14T00:00:00Z') })[0]?.detections, 1);
+    assert.deepStrictEqual(testHistory(entries, { test: 'missing' }), []);
+  });
+
+  await t.test('keeps the commit of each detection', () => {
+    const [login] = testHistory([{ ...createEntry('2026-10-19T08:00:00.000Z', 'login', 1, 1), commit: 'a1b2c3d' }]);
+
+    assert.strictEqual(login?.points[0]?.commit, 'a1b2c3d');
+  });
+});
+
+// ============================================================================
+// Detector Integration
+// ============================================================================
+
+test('history - detections with historyDir are recorded and queryable', async () => {
+  const dir = createHistoryDir();
+  const counterFile = join(dir, 'counter.txt');
+  const testCommand = `bash -c 'COUNT=$(( $(cat ${counterFile} 2>/dev/null || echo 0) + 1 )); echo $COUNT > ${counterFile}; [ $((COUNT % 2)) -eq 1 ]'`;
+
+  const flaky = await detect({ test: testCommand, runs: 4, historyDir: dir });
+  const stable = await detect({ test: 'exit 0', runs: 2, historyDir: dir });
+  await detect({ test: 'exit 0', runs: 2 });
+
+  assert(flaky.ok && stable.ok);
+  const entries = await readHistory(dir);
+  assert.deepStrictEqual(
+    entries.map(({ command, totalRuns, tests }) => ({ command, totalRuns, tests })),
+    [
+      { command: testCommand, totalRuns: 4, tests: [{ testName: 'Test Suite', passed: 2, failed: 2, flaky: true }] },
+      { command: 'exit 0', totalRuns: 2, tests: [{ testName: 'Test Suite', passed: 2, failed: 0, flaky: false }] },
+    ]
+  );
+  assert.match(entries[0]?.commit ?? '', /^[0-9a-f]{40}$/);
+
+  const result = await history({ dir, command: testCommand });
+  assert(result.ok);
+  assert.strictEqual(result.value[0]?.flakyDetections, 1);
+  rmSync(dir, { recursive: true, force: true });
+});
+
+test('history - invalid options return an error', async () => {
+  const report = await detectFlakiness({ testCommand: 'exit 0', runs: 1, historyDir: ' ' });
+  assert.strictEqual(report.success, false);
+  assert.match(report.error ?? '', /History directory/);
+
+  const invalidSince = await history({ since: new Date('not a date') });
+  assert.strictEqual(invalidSince.ok, false);
+
+  const empty = await history({ dir: join(tmpdir(), `missing-history-${Date.now()}`) });
+  assert(empty.ok);
+  assert.deepStrictEqual(empty.value, []);
+});
+
+test('history - write failures are reported without failing detection', async () => {
+  const dir = createHistoryDir();
+  const blocker = join(dir, 'file');
+  appendFileSync(blocker, '');
+
+  const report = await detectFlakiness({ testCommand: 'exit 0', runs: 1, historyDir: blocker });
+
+  assert.strictEqual(report.success, true);
+  assert.strictEqual(report.error, undefined);
+  assert.match(report.historyError ?? '', /file/);
+  assert.strictEqual(report.totalRuns, 1);
+  rmSync(dir, { recursive: true, force: true });
+});
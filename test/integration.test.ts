@@ -8,8 +8,8 @@
 import { test } from 'node:test';
 import assert from 'node:assert/strict';
 import { spawnSync } from 'node:child_process';
-import { detectFlakiness } from '../src/index.js';
-import { writeFileSync, mkdirSync, rmSync } from 'node:fs';
+import { detectFlakiness, classifyFailure } from '../src/index.js';
+import { writeFileSync, readFileSync, mkdirSync, rmSync } from 'node:fs';
 import { join } from 'node:path';
 
 const FIXTURES_DIR = join(process.cwd(), 'test', 'fixtures');
@@ -462,3 +462,379 @@ exit ${exitCode}
     }
   });
 });
+
+test('integration - Per-test flakiness from TAP output', async (t) => {
+  await t.test('should report the individual test that flaked', async () => {
+    const counterFile = join(FIXTURES_DIR, `tap-counter-${Date.now()}-${Math.random().toString(36).slice(2)}.txt`);
+    const scriptFile = join(FIXTURES_DIR, `tap-flaky-${Date.now()}-${Math.random().toString(36).slice(2)}.sh`);
+    writeFileSync(counterFile, '0');
+    writeFileSync(scriptFile, `#!/bin/bash
+COUNT=$(cat "${counterFile}")
+echo $((COUNT + 1)) > "${counterFile}"
+echo "TAP version 13"
+echo "# Subtest: math"
+echo "    ok 1 - adds"
+if [ $((COUNT % 2)) -eq 0 ]; then
+  echo "    ok 2 - divides"
+  echo "    1..2"
+  echo "ok 1 - math"
+  echo "1..1"
+  exit 0
+fi
+echo "    not ok 2 - divides"
+echo "    1..2"
+echo "not ok 1 - math"
+echo "1..1"
+exit 1
+`, { mode: 0o755 });
+
+    const report = await detectFlakiness({
+      testCommand: `bash ${scriptFile}`,
+      runs: 4,
+    });
+
+    assert.strictEqual(report.success, true);
+    assert.strictEqual(report.passedRuns, 2);
+    assert.strictEqual(report.failedRuns, 2);
+    assert.strictEqual(report.flakyTests.length, 1);
+    assert.strictEqual(report.flakyTests[0]!.testName, 'math > divides');
+    assert.strictEqual(report.flakyTests[0]!.failureRate, 50);
+    assert.deepStrictEqual(report.runs[0]!.tests?.map((test) => test.name), ['math > adds', 'math > divides']);
+    assert.strictEqual(report.framework, 'tap');
+  });
+
+  await t.test('should report runs that crash after passing tests as Test Suite failures', async () => {
+    const counterFile = join(FIXTURES_DIR, `tap-crash-counter-${Date.now()}-${Math.random().toString(36).slice(2)}.txt`);
+    const scriptFile = join(FIXTURES_DIR, `tap-crash-${Date.now()}-${Math.random().toString(36).slice(2)}.sh`);
+    writeFileSync(counterFile, '0');
+    writeFileSync(scriptFile, `#!/bin/bash
+COUNT=$(( $(cat "${counterFile}") + 1 ))
+echo $COUNT > "${counterFile}"
+echo "TAP version 13"
+echo "ok 1 - adds"
+echo "1..1"
+if [ $((COUNT % 3)) -eq 0 ]; then
+  exit 139
+fi
+exit 0
+`, { mode: 0o755 });
+
+    const report = await detectFlakiness({
+      testCommand: `bash ${scriptFile}`,
+      runs: 6,
+    });
+
+    assert.strictEqual(report.success, true);
+    assert.strictEqual(report.failedRuns, 2);
+    assert.deepStrictEqual(
+      report.flakyTests.map(({ testName, passed, failed }) => ({ testName, passed, failed })),
+      [{ testName: 'Test Suite', passed: 4, failed: 2 }]
+    );
+    assert.deepStrictEqual(report.flakyTests[0]!.failureClusters?.[0]?.runNumbers, [3, 6]);
+    assert.strictEqual(report.framework, 'tap');
+  });
+
+  await t.test('should fall back to Test Suite when output is not TAP', async () => {
+    const report = await detectFlakiness({
+      testCommand: 'echo "plain output"',
+      runs: 2,
+    });
+
+    assert.strictEqual(report.success, true);
+    assert.strictEqual(report.runs[0]!.tests, undefined);
+    assert.strictEqual(report.framework, undefined);
+  });
+});
+
+test('integration - Automatic test framework detection', async (t) => {
+  await t.test('should detect format from a later run and parse earlier runs too', async () => {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    const counterFile = join(FIXTURES_DIR, `detect-counter-${id}.txt`);
+    const scriptFile = join(FIXTURES_DIR, `detect-${id}.sh`);
+    writeFileSync(counterFile, '0');
+    writeFileSync(scriptFile, `#!/bin/bash
+COUNT=$(cat "${counterFile}")
+echo $((COUNT + 1)) > "${counterFile}"
+if [ $COUNT -eq 0 ]; then
+  echo "runner crashed before printing results" >&2
+  exit 1
+fi
+echo '<testsuite><testcase classname="Suite" name="works"/></testsuite>'
+`, { mode: 0o755 });
+
+    const report = await detectFlakiness({
+      testCommand: `bash ${scriptFile}`,
+      runs: 3,
+    });
+
+    assert.strictEqual(report.success, true);
+    assert.strictEqual(report.framework, 'junit');
+    assert.strictEqual(report.runs[0]!.tests, undefined);
+    assert.deepStrictEqual(report.runs[2]!.tests, [{ name: 'Suite.works', status: 'passed' }]);
+  });
+});
+
+test('integration - Per-test flakiness from JUnit XML files', async (t) => {
+  await t.test('should aggregate JUnit test cases across runs', async () => {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    const counterFile = join(FIXTURES_DIR, `junit-counter-${id}.txt`);
+    const reportFile = join(FIXTURES_DIR, `junit-report-${id}.xml`);
+    const scriptFile = join(FIXTURES_DIR, `junit-flaky-${id}.sh`);
+    writeFileSync(counterFile, '0');
+    writeFileSync(scriptFile, `#!/bin/bash
+COUNT=$(cat "${counterFile}")
+echo $((COUNT + 1)) > "${counterFile}"
+if [ $((COUNT % 2)) -eq 0 ]; then
+  RESULT='<testcase classname="Api" name="fetches"/>'
+else
+  RESULT='<testcase classname="Api" name="fetches"><failure message="timeout"/></testcase>'
+fi
+echo "<testsuite><testcase classname=\\"Api\\" name=\\"parses\\"/>$RESULT</testsuite>" > "${reportFile}"
+[ $((COUNT % 2)) -eq 0 ]
+`, { mode: 0o755 });
+
+    const report = await detectFlakiness({
+      testCommand: `bash ${scriptFile}`,
+      runs: 4,
+      junit: reportFile,
+    });
+
+    assert.strictEqual(report.success, true);
+    assert.strictEqual(report.flakyTests.length, 1);
+    assert.strictEqual(report.flakyTests[0]!.testName, 'Api.fetches');
+    assert.strictEqual(report.flakyTests[0]!.passed, 2);
+    assert.strictEqual(report.flakyTests[0]!.failed, 2);
+    assert.deepStrictEqual(report.runs[1]!.tests?.map((test) => test.status), ['passed', 'failed']);
+  });
+
+  await t.test('should not credit a run with result files left by an earlier run', async () => {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    const counterFile = join(FIXTURES_DIR, `junit-stale-counter-${id}.txt`);
+    const reportDir = join(FIXTURES_DIR, `junit-stale-${id}`);
+    const scriptFile = join(FIXTURES_DIR, `junit-stale-${id}.sh`);
+    mkdirSync(reportDir, { recursive: true });
+    writeFileSync(counterFile, '0');
+    writeFileSync(scriptFile, `#!/bin/bash
+COUNT=$(( $(cat "${counterFile}") + 1 ))
+echo $COUNT > "${counterFile}"
+if [ $((COUNT % 2)) -eq 0 ]; then
+  exit 2
+fi
+if [ $COUNT -eq 1 ]; then
+  echo '<testsuite><testcase classname="A" name="t1"/></testsuite>' > "${reportDir}/report-$COUNT.xml"
+else
+  echo '<testsuite><testcase classname="A" name="t1"><failure/></testcase></testsuite>' > "${reportDir}/report-$COUNT.xml"
+fi
+`, { mode: 0o755 });
+
+    const report = await detectFlakiness({
+      testCommand: `bash ${scriptFile}`,
+      runs: 4,
+      junit: join(reportDir, '*.xml'),
+    });
+
+    assert.deepStrictEqual(
+      report.runs.map((run) => run.tests?.map((test) => `${test.name} ${test.status}`)),
+      [['A.t1 passed'], undefined, ['A.t1 failed'], undefined]
+    );
+    assert.deepStrictEqual(
+      report.flakyTests.map(({ testName, passed, failed }) => ({ testName, passed, failed })),
+      [
+        { testName: 'A.t1', passed: 1, failed: 1 },
+        { testName: 'Test Suite', passed: 2, failed: 2 },
+      ]
+    );
+  });
+
+  await t.test('should reject result files with concurrent runs', async () => {
+    const report = await detectFlakiness({
+      testCommand: 'echo "test"',
+      runs: 4,
+      concurrency: 2,
+      junit: join(FIXTURES_DIR, '*.xml'),
+    });
+
+    assert.strictEqual(report.success, false);
+    assert.match(report.error ?? '', /concurrency above 1/);
+  });
+
+  await t.test('should reject an empty JUnit pattern', async () => {
+    const report = await detectFlakiness({
+      testCommand: 'echo "test"',
+      runs: 1,
+      junit: '',
+    });
+
+    assert.strictEqual(report.success, false);
+    assert.match(report.error ?? '', /junit/i);
+  });
+});
+
+test('integration - Jest/Vitest JSON reports', async (t) => {
+  await t.test('should read per-run JSON output files', async () => {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    const counterFile = join(FIXTURES_DIR, `jest-counter-${id}.txt`);
+    const outputFile = join(FIXTURES_DIR, `jest-results-${id}.json`);
+    const scriptFile = join(FIXTURES_DIR, `jest-${id}.sh`);
+    writeFileSync(counterFile, '0');
+    writeFileSync(scriptFile, `#!/bin/bash
+COUNT=$(cat "${counterFile}")
+echo $((COUNT + 1)) > "${counterFile}"
+if [ $((COUNT % 2)) -eq 0 ]; then STATUS=passed; else STATUS=failed; fi
+echo '{"numTotalTests":1,"testResults":[{"name":"cart.test.js","assertionResults":[{"ancestorTitles":["cart"],"title":"checks out","status":"'$STATUS'","duration":25}]}]}' > "${outputFile}"
+echo "PASS/FAIL human-readable summary"
+[ "$STATUS" = passed ]
+`, { mode: 0o755 });
+
+    const report = await detectFlakiness({
+      testCommand: `bash ${scriptFile}`,
+      runs: 4,
+      parser: 'jest-json',
+      resultFiles: outputFile,
+    });
+
+    assert.strictEqual(report.success, true);
+    assert.strictEqual(report.framework, 'jest-json');
+    assert.deepStrictEqual(report.flakyTests.map((test) => test.testName), ['cart > checks out']);
+    assert.strictEqual(report.runs[0]!.tests?.[0]?.durationMs, 25);
+  });
+
+  await t.test('should require a parser when result files are configured', async () => {
+    const report = await detectFlakiness({
+      testCommand: 'echo "test"',
+      runs: 1,
+      resultFiles: 'results.json',
+    });
+
+    assert.strictEqual(report.success, false);
+    assert.match(report.error ?? '', /parser/i);
+  });
+});
+
+test('integration - Per-run timeout', async (t) => {
+  await t.test('should kill hung runs and mark them as timed out', async () => {
+    const start = Date.now();
+    const report = await detectFlakiness({
+      testCommand: 'sleep 10',
+      runs: 2,
+      timeoutMs: 200,
+    });
+    const elapsed = Date.now() - start;
+
+    assert.strictEqual(report.success, true);
+    assert.strictEqual(report.failedRuns, 2);
+    assert.strictEqual(report.timedOutRuns, 2);
+    assert(report.runs.every((run) => run.timedOut === true && !run.success));
+    assert(elapsed < 5000, `Expected hung runs to be killed, took ${elapsed}ms`);
+    // Consistent hangs are not flaky
+    assert.deepStrictEqual(report.flakyTests, []);
+  });
+
+  await t.test('should kill the whole process tree', async () => {
+    const pidFile = join(FIXTURES_DIR, `timeout-pid-${Date.now()}.txt`);
+    const report = await detectFlakiness({
+      testCommand: `bash -c 'sleep 30 & echo $! > "${pidFile}"; wait'`,
+      runs: 1,
+      timeoutMs: 300,
+    });
+
+    assert.strictEqual(report.runs[0]!.timedOut, true);
+    const pid = parseInt(readFileSync(pidFile, 'utf-8'), 10);
+    const isAlive = (): boolean => {
+      try {
+        process.kill(pid, 0);
+        return true;
+      } catch {
+        return false;
+      }
+    };
+    // Give the OS a moment to reap the killed process
+    for (let attempt = 0; attempt < 20 && isAlive(); attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    assert.strictEqual(isAlive(), false, 'Background process should have been killed');
+  });
+
+  await t.test('should report intermittent hangs as their own category', async () => {
+    const counterFile = join(FIXTURES_DIR, `hang-counter-${Date.now()}.txt`);
+    writeFileSync(counterFile, '0');
+
+    const report = await detectFlakiness({
+      testCommand: `bash -c 'COUNT=$(cat "${counterFile}"); echo $((COUNT + 1)) > "${counterFile}"; if [ $((COUNT % 2)) -eq 1 ]; then sleep 10; fi'`,
+      runs: 4,
+      timeoutMs: 500,
+    });
+
+    assert.strictEqual(report.timedOutRuns, 2);
+    assert.strictEqual(report.passedRuns, 2);
+    // Hangs are not counted as ordinary suite failures
+    assert.deepStrictEqual(
+      report.flakyTests.map(({ testName, passed, failed, totalRuns, failureRate, category }) => ({
+        testName,
+        passed,
+        failed,
+        totalRuns,
+        failureRate,
+        category,
+      })),
+      [{ testName: 'Test Suite', passed: 2, failed: 2, totalRuns: 4, failureRate: 50, category: 'hang' }]
+    );
+  });
+
+  await t.test('should reject invalid timeouts', async () => {
+    const report = await detectFlakiness({ testCommand: 'echo "test"', runs: 1, timeoutMs: 0 });
+
+    assert.strictEqual(report.success, false);
+    assert.match(report.error ?? '', /timeout/i);
+  });
+});
+
+test('integration - Failure classification', async (t) => {
+  await t.test('should classify exit codes and signals', () => {
+    assert.strictEqual(classifyFailure(1, null), 'test-failure');
+    assert.strictEqual(classifyFailure(127, null), 'spawn-error');
+    assert.strictEqual(classifyFailure(126, null), 'spawn-error');
+    assert.strictEqual(classifyFailure(null, 'SIGSEGV'), 'crash');
+    assert.strictEqual(classifyFailure(134, null), 'crash');
+    assert.strictEqual(classifyFailure(null, 'SIGKILL'), 'oom-suspected');
+    assert.strictEqual(classifyFailure(137, null), 'oom-suspected');
+    assert.strictEqual(classifyFailure(null, 'SIGTERM'), 'killed');
+    assert.strictEqual(classifyFailure(143, null), 'killed');
+  });
+
+  await t.test('should record the failure kind and signal of each run', async () => {
+    const report = await detectFlakiness({ testCommand: 'exit 3', runs: 1 });
+    const crash = await detectFlakiness({ testCommand: `bash -c 'kill -SEGV $$'`, runs: 1 });
+    const missing = await detectFlakiness({ testCommand: 'definitely-not-a-command-xyz', runs: 1 });
+    const hang = await detectFlakiness({ testCommand: 'sleep 10', runs: 1, timeoutMs: 200 });
+
+    assert.strictEqual(report.runs[0]!.exitCode, 3);
+    assert.strictEqual(report.runs[0]!.failureKind, 'test-failure');
+    assert.strictEqual(report.runs[0]!.signal, undefined);
+    assert.strictEqual(crash.runs[0]!.failureKind, 'crash');
+    assert.strictEqual(missing.runs[0]!.exitCode, 127);
+    assert.strictEqual(missing.runs[0]!.failureKind, 'spawn-error');
+    assert.strictEqual(hang.runs[0]!.failureKind, 'timeout');
+  });
+
+  await t.test('should leave passing runs unclassified', async () => {
+    const report = await detectFlakiness({ testCommand: 'exit 0', runs: 2 });
+
+    assert(report.runs.every((run) => run.failureKind === undefined && run.signal === undefined));
+    assert.deepStrictEqual(report.exitCodes, { '0': 2 });
+  });
+
+  await t.test('should count runs per exit code', async () => {
+    const counterFile = join(FIXTURES_DIR, `exit-code-counter-${Date.now()}.txt`);
+    writeFileSync(counterFile, '0');
+
+    const report = await detectFlakiness({
+      testCommand: `bash -c 'COUNT=$(cat "${counterFile}"); echo $((COUNT + 1)) > "${counterFile}"; if [ $COUNT -eq 1 ]; then kill -SEGV $$; elif [ $COUNT -ge 3 ]; then exit 1; fi'`,
+      runs: 5,
+    });
+
+    // The shell reports the segfault as 128 + SIGSEGV
+    assert.deepStrictEqual(report.exitCodes, { '0': 2, '1': 2, '139': 1 });
+    assert.strictEqual(report.runs[1]!.failureKind, 'crash');
+  });
+});
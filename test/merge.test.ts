@@ -0,0 +1,213 @@
+/**
+ * Tests for merging partial reports
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { hostname } from 'node:os';
+import { mergeReports, detectFlakiness } from '../src/index.js';
+import type { DetectionReport, ProgressEvent, TestRunResult } from '../src/index.js';
+import { createRun } from './helpers.js';
+
+/**
+ * Helper: Create a partial report of the given runs
+ */
+function createReport(runs: TestRunResult[], extra: Partial<DetectionReport> = {}): DetectionReport {
+  const passedRuns = runs.filter((run) => run.success).length;
+  return { success: true, totalRuns: runs.length, passedRuns, failedRuns: runs.length - passedRuns, flakyTests: [], runs, ...extra };
+}
+
+// ============================================================================
+// Merging
+// ============================================================================
+
+test('merge - mergeReports', async (t) => {
+  await t.test('recomputes counts and flakiness from the combined runs', () => {
+    // Neither shard is flaky on its own
+    const merged = mergeReports([
+      createReport([createRun(true, { runNumber: 1 }), createRun(true, { runNumber: 2 })], { hostname: 'ci-1' }),
+      createReport(
+        [createRun(false, { runNumber: 1, stderr: 'Error: boom' }), createRun(false, { runNumber: 2, stderr: 'Error: boom' })],
+        { hostname: 'ci-2' }
+      ),
+    ]);
+
+    assert.strictEqual(merged.success, true);
+    assert.strictEqual(merged.totalRuns, 4);
+    assert.strictEqual(merged.passedRuns, 2);
+    assert.strictEqual(merged.failedRuns, 2);
+    assert.strictEqual(merged.mergedReports, 2);
+    assert.deepStrictEqual(
+      merged.flakyTests.map(({ testName, passed, failed, failureRate }) => ({ testName, passed, failed, failureRate })),
+      [{ testName: 'Test Suite', passed: 2, failed: 2, failureRate: 50 }]
+    );
+    assert.deepStrictEqual(merged.flakyTests[0]?.failureClusters?.[0]?.runNumbers, [3, 4]);
+    assert.deepStrictEqual(merged.exitCodes, { '0': 2, '1': 2 });
+    assert.strictEqual(merged.hostname, undefined);
+  });
+
+  await t.test('records the shard and hostname of each run', () => {
+    const merged = mergeReports([
+      createReport([createRun(true, { runNumber: 1 })], { hostname: 'ci-1' }),
+      createReport([createRun(true, { runNumber: 1 })], { hostname: 'ci-2' }),
+      createReport([createRun(true, { runNumber: 1 })]),
+    ]);
+
+    assert.deepStrictEqual(
+      merged.runs.map(({ runNumber, shard, hostname: host }) => ({ runNumber, shard, host })),
+      [
+        { runNumber: 1, shard: 1, host: 'ci-1' },
+        { runNumber: 2, shard: 2, host: 'ci-2' },
+        { runNumber: 3, shard: 3, host: undefined },
+      ]
+    );
+  });
+
+  await t.test('keeps unique run numbers in run order', () => {
+    const merged = mergeReports([
+      createReport([createRun(true, { runNumber: 2 }), createRun(true, { runNumber: 4 })]),
+      createReport([createRun(false, { runNumber: 1 }), createRun(true, { runNumber: 3 })]),
+    ]);
+
+    assert.deepStrictEqual(merged.runs.map((run) => [run.runNumber, run.shard]), [[1, 2], [2, 1], [3, 2], [4, 1]]);
+  });
+
+  await t.test('keeps the provenance of already merged runs', () => {
+    const first = mergeReports([
+      createReport([createRun(true, { runNumber: 1 })], { hostname: 'ci-1' }),
+      createReport([createRun(true, { runNumber: 2 })], { hostname: 'ci-2' }),
+    ]);
+    const merged = mergeReports([first, createReport([createRun(false, { runNumber: 3 })], { hostname: 'ci-3' })]);
+
+    assert.deepStrictEqual(merged.runs.map((run) => [run.shard, run.hostname]), [[1, 'ci-1'], [2, 'ci-2'], [2, 'ci-3']]);
+  });
+
+  await t.test('applies the threshold and confidence level', () => {
+    const runs = (offset: number): TestRunResult[] =>
+      Array.from({ length: 10 }, (_, i) => createRun(i !== 0, { runNumber: offset + i + 1 }));
+    const reports = [createReport(runs(0), { targetConfidence: 90 }), createReport(runs(10))];
+
+    assert.deepStrictEqual(mergeReports(reports, { threshold: 20 }).flakyTests, []);
+
+    const merged = mergeReports(reports);
+    assert.strictEqual(merged.targetConfidence, 90);
+    assert(merged.confidence !== undefined);
+    assert.strictEqual(merged.flakyTests[0]?.confidenceInterval?.confidence, 90);
+    assert.strictEqual(mergeReports(reports, { confidence: 99 }).flakyTests[0]?.confidenceInterval?.confidence, 99);
+  });
+
+  await t.test('carries over aborts, timeouts and the framework', () => {
+    const merged = mergeReports([
+      createReport([createRun(true, { runNumber: 1 })], { framework: 'tap', timedOutRuns: 0 }),
+      createReport([createRun(false, { runNumber: 2, timedOut: true })], { aborted: true, timedOutRuns: 1 }),
+    ]);
+
+    assert.strictEqual(merged.aborted, true);
+    assert.strictEqual(merged.timedOutRuns, 1);
+    assert.strictEqual(merged.framework, 'tap');
+    assert.strictEqual(merged.flakyTests[0]?.category, 'hang');
+  });
+
+  await t.test('rejects invalid input', () => {
+    assert.throws(() => mergeReports([]), /At least one report/);
+    assert.throws(
+      () => mergeReports([createReport([]), { ...createReport([]), success: false, error: 'Runs must be between 1 and 1000' }]),
+      /Report 2 failed: Runs must be between 1 and 1000/
+    );
+    assert.throws(() => mergeReports([{ success: true } as DetectionReport]), /Report 1 is not a detection report/);
+    assert.throws(() => mergeReports([createReport([])], { threshold: 150 }), /Threshold/);
+  });
+
+  await t.test('takes run shards from sharded reports', () => {
+    const merged = mergeReports([
+      createReport([createRun(true, { runNumber: 3 })], { shard: { index: 2, count: 2 } }),
+      createReport([createRun(true, { runNumber: 1 }), createRun(true, { runNumber: 2 })], { shard: { index: 1, count: 2 } }),
+    ]);
+
+    assert.deepStrictEqual(merged.runs.map((run) => [run.runNumber, run.shard]), [[1, 1], [2, 1], [3, 2]]);
+    assert.strictEqual(merged.shard, undefined);
+  });
+
+  await t.test('rejects conflicting shards', () => {
+    assert.throws(
+      () => mergeReports([createReport([], { shard: { index: 2, count: 8 } }), createReport([], { shard: { index: 2, count: 8 } })]),
+      /Report 2 duplicates shard 2\/8 of report 1/
+    );
+    assert.throws(
+      () => mergeReports([createReport([], { shard: { index: 1, count: 8 } }), createReport([], { shard: { index: 2, count: 4 } })]),
+      /Report 2 is shard 2\/4, but other reports split the runs 8 ways/
+    );
+  });
+});
+
+// ============================================================================
+// Detector Integration
+// ============================================================================
+
+test('merge - partial detections merge into one report', async () => {
+  const counterFile = `/tmp/merge-counter-${Date.now()}-${Math.random()}.txt`;
+  const testCommand = `bash -c 'COUNT=$(( $(cat ${counterFile} 2>/dev/null || echo 0) + 1 )); echo $COUNT > ${counterFile}; [ $COUNT -le 3 ]'`;
+  const shards = [
+    await detectFlakiness({ testCommand, runs: 3 }),
+    await detectFlakiness({ testCommand, runs: 3 }),
+  ];
+
+  assert.deepStrictEqual(shards.map((shard) => shard.flakyTests.length), [0, 0]);
+  assert.strictEqual(shards[0]?.hostname, hostname());
+
+  const merged = mergeReports(JSON.parse(JSON.stringify(shards)));
+
+  assert.strictEqual(merged.totalRuns, 6);
+  assert.strictEqual(merged.flakyTests[0]?.failed, 3);
+  assert.deepStrictEqual(merged.runs.map((run) => run.runNumber), [1, 2, 3, 4, 5, 6]);
+  assert(merged.runs.every((run) => run.hostname === hostname()));
+});
+
+// ============================================================================
+// Sharded Detection
+// ============================================================================
+
+test('merge - sharded detections', async (t) => {
+  await t.test('each shard makes its share of the runs with global run numbers', async () => {
+    const shards = await Promise.all(
+      [1, 2, 3].map(async (index) => {
+        const events: ProgressEvent[] = [];
+        const report = await detectFlakiness({
+          testCommand: 'exit 0',
+          runs: 10,
+          shard: { index, count: 3 },
+          onProgress: (event) => events.push(event),
+        });
+        return { report, events };
+      })
+    );
+
+    assert.deepStrictEqual(
+      shards.map(({ report }) => report.runs.map((run) => run.runNumber)),
+      [[1, 2, 3], [4, 5, 6], [7, 8, 9, 10]]
+    );
+    assert.deepStrictEqual(shards[1]?.report.shard, { index: 2, count: 3 });
+    assert(shards[1]?.report.runs.every((run) => run.shard === 2));
+    assert.deepStrictEqual(shards[1]?.events[0], { type: 'start', totalRuns: 10, shardRuns: 3 });
+    assert.deepStrictEqual(
+      shards[1]?.events.filter((event) => event.type === 'run-complete').map((event) => [event.runNumber, event.totalRuns]),
+      [[4, 10], [5, 10], [6, 10]]
+    );
+
+    const merged = mergeReports(JSON.parse(JSON.stringify(shards.map(({ report }) => report))));
+    assert.strictEqual(merged.totalRuns, 10);
+    assert.deepStrictEqual(merged.runs.map((run) => run.runNumber), [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  });
+
+  await t.test('invalid shards return an error', async () => {
+    for (const shard of [{ index: 0, count: 8 }, { index: 9, count: 8 }, { index: 1.5, count: 2 }]) {
+      const report = await detectFlakiness({ testCommand: 'exit 0', runs: 8, shard });
+      assert.strictEqual(report.success, false);
+      assert.match(report.error ?? '', /Shard must be i\/n/);
+    }
+
+    const empty = await detectFlakiness({ testCommand: 'exit 0', runs: 2, shard: { index: 1, count: 3 } });
+    assert.strictEqual(empty.success, false);
+    assert.match(empty.error ?? '', /Shard 1\/3 has no runs \(2 runs split 3 ways\)/);
+  });
+});
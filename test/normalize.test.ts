@@ -0,0 +1,127 @@
+/**
+ * Tests for the output normalization pipeline
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeOutput, createNormalizer, BUILTIN_NORMALIZATIONS, detect, detectFlakiness } from '../src/index.js';
+
+// ============================================================================
+// Built-in Rules
+// ============================================================================
+
+test('normalize - built-in rules', async (t) => {
+  await t.test('replaces timestamps', () => {
+    assert.strictEqual(normalizeOutput('at 2026-01-08T12:34:56.789Z failed'), 'at <timestamp> failed');
+    assert.strictEqual(normalizeOutput('2026-01-08 12:34:56,123+01:00 ERROR'), '<timestamp> ERROR');
+    assert.strictEqual(normalizeOutput('[12:34:56.7] started'), '[<time>] started');
+  });
+
+  await t.test('replaces durations', () => {
+    assert.strictEqual(normalizeOutput('ok 1 - login (12ms)'), 'ok 1 - login (<duration>)');
+    assert.strictEqual(normalizeOutput('Finished in 1.52 s'), 'Finished in <duration>');
+    assert.strictEqual(normalizeOutput('took 3 seconds'), 'took <duration>');
+    assert.strictEqual(normalizeOutput('  duration_ms: 12.345'), '  duration_ms: <duration>');
+    assert.strictEqual(normalizeOutput('{"duration": 120}'), '{"duration": <duration>}');
+    assert.strictEqual(normalizeOutput('10 tests, 2 suites'), '10 tests, 2 suites');
+  });
+
+  await t.test('replaces UUIDs', () => {
+    assert.strictEqual(normalizeOutput('request 3f2a9c1b-04de-4a7b-9c2e-8e1d77a0c2b9 failed'), 'request <uuid> failed');
+  });
+
+  await t.test('replaces temp paths', () => {
+    assert.strictEqual(normalizeOutput("ENOENT: open '/tmp/test-Xa9f2/config.json'"), "ENOENT: open '<tmp>'");
+    assert.strictEqual(normalizeOutput('/var/folders/zz/abc123/T/out.log missing'), '<tmp> missing');
+    assert.strictEqual(normalizeOutput('C:\\Users\\ci\\AppData\\Local\\Temp\\run-42\\a.txt missing'), '<tmp> missing');
+  });
+
+  await t.test('replaces memory addresses, PIDs and ports', () => {
+    assert.strictEqual(normalizeOutput('segfault at 0x7ffd5e8c1a40'), 'segfault at <addr>');
+    assert.strictEqual(normalizeOutput('worker pid 4242 exited (PID: 4243)'), 'worker pid <pid> exited (PID: <pid>)');
+    assert.strictEqual(normalizeOutput('connect ECONNREFUSED 127.0.0.1:54321'), 'connect ECONNREFUSED 127.0.0.1:<port>');
+    assert.strictEqual(normalizeOutput('GET http://localhost:3000/api'), 'GET http://localhost:<port>/api');
+    assert.strictEqual(normalizeOutput('listening on port 8080'), 'listening on port <port>');
+  });
+
+  await t.test('keeps source locations', () => {
+    assert.strictEqual(normalizeOutput('at run (src/server.ts:42:7)'), 'at run (src/server.ts:42:7)');
+  });
+
+  await t.test('lists the built-in rules', () => {
+    assert.deepStrictEqual(BUILTIN_NORMALIZATIONS, ['timestamps', 'durations', 'uuids', 'addresses', 'pids', 'ports', 'temp-dirs']);
+  });
+});
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+test('normalize - configuration', async (t) => {
+  await t.test('applies only the selected built-ins', () => {
+    const normalize = createNormalizer({ builtins: ['uuids'] });
+
+    assert.strictEqual(
+      normalize('3f2a9c1b-04de-4a7b-9c2e-8e1d77a0c2b9 took 12ms'),
+      '<uuid> took 12ms'
+    );
+    assert.strictEqual(normalizeOutput('took 12ms on port 80', { builtins: false }), 'took 12ms on port 80');
+  });
+
+  await t.test('applies user rules after the built-ins', () => {
+    const normalize = createNormalizer({
+      rules: [
+        { pattern: 'seed=\\d+', replacement: 'seed=<seed>' },
+        { pattern: /worker-(\d+)/, replacement: 'worker-<n>' },
+        { pattern: /<duration>/, replacement: '<time taken>' },
+      ],
+    });
+
+    assert.strictEqual(normalize('seed=42 worker-3 worker-7 12ms'), 'seed=<seed> worker-<n> worker-<n> <time taken>');
+  });
+
+  await t.test('supports capture groups in replacements', () => {
+    assert.strictEqual(
+      normalizeOutput('user alice logged in', { builtins: false, rules: [{ pattern: 'user (\\w+)', replacement: 'user <$1>' }] }),
+      'user <alice> logged in'
+    );
+  });
+
+  await t.test('rejects unknown built-ins and invalid patterns', () => {
+    assert.throws(() => createNormalizer({ builtins: ['colors' as 'uuids'] }), /Unknown normalization rule "colors"/);
+    assert.throws(() => createNormalizer({ rules: [{ pattern: '(', replacement: '' }] }), /rule 1 has an invalid pattern/);
+    assert.throws(() => createNormalizer({ rules: [{ pattern: 'x', replacement: 1 as unknown as string }] }), /rule 1 must have/);
+  });
+});
+
+// ============================================================================
+// Detector Integration
+// ============================================================================
+
+test('normalize - user rules decide which failures cluster together', async () => {
+  const counterFile = `/tmp/normalize-counter-${Date.now()}-${Math.random()}.txt`;
+  const testCommand = `bash -c 'COUNT=$(( $(cat ${counterFile}-$SUFFIX 2>/dev/null || echo 0) + 1 )); echo $COUNT > ${counterFile}-$SUFFIX; if [ $COUNT -gt 1 ]; then echo "Error: shard $COUNT failed" >&2; exit 1; fi'`;
+
+  const withoutRule = await detectFlakiness({ testCommand: `SUFFIX=a ${testCommand}`, runs: 4 });
+  const withRule = await detect({
+    test: `SUFFIX=b ${testCommand}`,
+    runs: 4,
+    normalize: { rules: [{ pattern: 'shard \\d+', replacement: 'shard <n>' }] },
+  });
+
+  assert.strictEqual(withoutRule.failureClusters?.length, 3);
+  assert(withRule.ok);
+  assert.strictEqual(withRule.value.failureClusters?.length, 1);
+  assert.strictEqual(withRule.value.failureClusters?.[0]?.count, 3);
+});
+
+test('normalize - invalid rules return an error', async () => {
+  const report = await detectFlakiness({
+    testCommand: 'exit 0',
+    runs: 2,
+    normalize: { rules: [{ pattern: '[', replacement: '' }] },
+  });
+
+  assert.strictEqual(report.success, false);
+  assert.match(report.error ?? '', /invalid pattern/);
+});
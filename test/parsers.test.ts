@@ -0,0 +1,716 @@
+/**
+ * Tests for test result parsers
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, rmSync, writeFileSync, utimesSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { parseTAP, looksLikeTAP } from '../src/parsers/tap.js';
+import { parseJUnitXML, readJUnitResults } from '../src/parsers/junit.js';
+import { parseJestJSON, looksLikeJestJSON } from '../src/parsers/jest-json.js';
+import { parseGoTestJSON } from '../src/parsers/go-json.js';
+import { parsePytest } from '../src/parsers/pytest.js';
+import { parseCargoTest } from '../src/parsers/cargo.js';
+import { registerParser, getParser, listParsers, resolveParser, detectParser } from '../src/parsers/index.js';
+import { expandGlob, globToRegExp } from '../src/glob.js';
+import type { ResultParser } from '../src/types.js';
+
+const FIXTURES_DIR = join(tmpdir(), `flaky-parsers-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+
+test.after(() => {
+  rmSync(FIXTURES_DIR, { recursive: true, force: true });
+});
+
+// ============================================================================
+// TAP Parser Tests
+// ============================================================================
+
+test('TAP parser - detection', async (t) => {
+  await t.test('should recognize TAP version header', () => {
+    assert.strictEqual(looksLikeTAP('TAP version 13\nok 1 - test'), true);
+    assert.strictEqual(looksLikeTAP('TAP version 14\n'), true);
+  });
+
+  await t.test('should recognize plan line without header', () => {
+    assert.strictEqual(looksLikeTAP('1..2\nok 1 - a\nok 2 - b'), true);
+  });
+
+  await t.test('should not treat plain output as TAP', () => {
+    assert.strictEqual(looksLikeTAP('ok\nall good'), false);
+    assert.deepStrictEqual(parseTAP('ok 1 - looks like TAP but has no plan'), []);
+    assert.deepStrictEqual(parseTAP(''), []);
+  });
+});
+
+test('TAP parser - test points', async (t) => {
+  await t.test('should parse passing and failing tests', () => {
+    const outcomes = parseTAP(`TAP version 13
+1..3
+ok 1 - adds numbers
+not ok 2 - subtracts numbers
+ok 3 - multiplies numbers
+`);
+
+    assert.deepStrictEqual(outcomes, [
+      { name: 'adds numbers', status: 'passed' },
+      { name: 'subtracts numbers', status: 'failed' },
+      { name: 'multiplies numbers', status: 'passed' },
+    ]);
+  });
+
+  await t.test('should parse test points without dash or number', () => {
+    const outcomes = parseTAP('TAP version 13\nok 1 first\nnot ok second\n1..2');
+
+    assert.deepStrictEqual(outcomes.map((o) => o.name), ['first', 'second']);
+  });
+
+  await t.test('should name unnamed tests by number', () => {
+    const outcomes = parseTAP('1..1\nok 1');
+
+    assert.strictEqual(outcomes[0]!.name, '#1');
+  });
+
+  await t.test('should treat SKIP and TODO directives as skipped', () => {
+    const outcomes = parseTAP(`TAP version 13
+ok 1 - skipped test # SKIP not on this platform
+not ok 2 - unfinished test # TODO implement later
+ok 3 - lowercase # skip
+1..3
+`);
+
+    assert.deepStrictEqual(outcomes.map((o) => o.status), ['skipped', 'skipped', 'skipped']);
+    assert.strictEqual(outcomes[0]!.name, 'skipped test');
+  });
+
+  await t.test('should keep escaped hash characters in names', () => {
+    const outcomes = parseTAP('TAP version 13\nok 1 - handles \\# in name\n1..1');
+
+    assert.strictEqual(outcomes[0]!.name, 'handles # in name');
+  });
+
+  await t.test('should read duration from time directive', () => {
+    const outcomes = parseTAP('TAP version 13\nok 1 - fast # time=12.5ms\nok 2 - slow # time=2s\n1..2');
+
+    assert.strictEqual(outcomes[0]!.durationMs, 12.5);
+    assert.strictEqual(outcomes[1]!.durationMs, 2000);
+  });
+
+  await t.test('should stop at Bail out!', () => {
+    const outcomes = parseTAP('TAP version 13\nok 1 - before\nBail out! database down\nok 2 - after\n');
+
+    assert.deepStrictEqual(outcomes.map((o) => o.name), ['before']);
+  });
+
+  await t.test('should ignore non-TAP lines mixed into output', () => {
+    const outcomes = parseTAP(`> my-package@1.0.0 test
+TAP version 13
+console.log noise
+ok 1 - real test
+# tests 1
+1..1
+`);
+
+    assert.deepStrictEqual(outcomes, [{ name: 'real test', status: 'passed' }]);
+  });
+});
+
+test('TAP parser - subtests', async (t) => {
+  await t.test('should join node:test subtest names with parents', () => {
+    const outcomes = parseTAP(`TAP version 13
+# Subtest: math
+    # Subtest: adds
+    ok 1 - adds
+      ---
+      duration_ms: 1.5
+      ...
+    # Subtest: divides
+    not ok 2 - divides
+      ---
+      duration_ms: 3.25
+      failureType: 'testCodeFailure'
+      ...
+    1..2
+not ok 1 - math
+  ---
+  duration_ms: 6
+  ...
+1..1
+`);
+
+    assert.deepStrictEqual(outcomes, [
+      { name: 'math > adds', status: 'passed', durationMs: 1.5 },
+      { name: 'math > divides', status: 'failed', durationMs: 3.25 },
+    ]);
+  });
+
+  await t.test('should handle multiple nesting levels', () => {
+    const outcomes = parseTAP(`TAP version 14
+# Subtest: outer
+    # Subtest: inner
+        ok 1 - leaf
+        1..1
+    ok 1 - inner
+    ok 2 - sibling
+    1..2
+ok 1 - outer
+ok 2 - top level
+1..2
+`);
+
+    assert.deepStrictEqual(outcomes.map((o) => o.name), [
+      'outer > inner > leaf',
+      'outer > sibling',
+      'top level',
+    ]);
+  });
+
+  await t.test('should handle subtests without Subtest headers', () => {
+    const outcomes = parseTAP(`TAP version 14
+    ok 1 - child one
+    ok 2 - child two
+    1..2
+ok 1 - parent
+1..1
+`);
+
+    assert.deepStrictEqual(outcomes.map((o) => o.name), ['parent > child one', 'parent > child two']);
+  });
+
+  await t.test('should report parent failure not explained by subtests', () => {
+    const outcomes = parseTAP(`TAP version 13
+# Subtest: suite
+    ok 1 - only test
+    1..1
+not ok 1 - suite
+1..1
+`);
+
+    assert.deepStrictEqual(outcomes, [
+      { name: 'suite > only test', status: 'passed' },
+      { name: 'suite', status: 'failed' },
+    ]);
+  });
+
+  await t.test('should keep subtests of truncated output', () => {
+    const outcomes = parseTAP(`TAP version 13
+# Subtest: suite
+    ok 1 - finished
+    not ok 2 - crashed
+`);
+
+    assert.deepStrictEqual(outcomes, [
+      { name: 'suite > finished', status: 'passed' },
+      { name: 'suite > crashed', status: 'failed' },
+    ]);
+  });
+});
+
+// ============================================================================
+// JUnit XML Parser Tests
+// ============================================================================
+
+test('JUnit parser - test cases', async (t) => {
+  await t.test('should parse passed, failed, errored and skipped tests', () => {
+    const outcomes = parseJUnitXML(`<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="com.example.MathTest" tests="4">
+    <testcase classname="com.example.MathTest" name="adds" time="0.012"/>
+    <testcase classname="com.example.MathTest" name="divides" time="0.5">
+      <failure message="expected 2 but was 3" type="AssertionError">stack trace</failure>
+    </testcase>
+    <testcase classname="com.example.MathTest" name="connects">
+      <error message="Connection refused"/>
+    </testcase>
+    <testcase classname="com.example.MathTest" name="later">
+      <skipped/>
+    </testcase>
+  </testsuite>
+</testsuites>`);
+
+    assert.deepStrictEqual(outcomes, [
+      { name: 'com.example.MathTest.adds', status: 'passed', durationMs: 12 },
+      { name: 'com.example.MathTest.divides', status: 'failed', durationMs: 500 },
+      { name: 'com.example.MathTest.connects', status: 'failed' },
+      { name: 'com.example.MathTest.later', status: 'skipped' },
+    ]);
+  });
+
+  await t.test('should use name alone when classname is missing', () => {
+    const outcomes = parseJUnitXML('<testsuite><testcase name="standalone"/></testsuite>');
+
+    assert.deepStrictEqual(outcomes, [{ name: 'standalone', status: 'passed' }]);
+  });
+
+  await t.test('should decode entities and allow > in attribute values', () => {
+    const outcomes = parseJUnitXML(
+      `<testsuite><testcase classname="a" name="x &gt; 1 &amp;&amp; y &#60; 2 when a > b"/></testsuite>`
+    );
+
+    assert.strictEqual(outcomes[0]!.name, 'a.x > 1 && y < 2 when a > b');
+  });
+
+  await t.test('should ignore tags inside comments and CDATA', () => {
+    const outcomes = parseJUnitXML(`<testsuite>
+  <!-- <testcase name="commented out"/> -->
+  <testcase name="real">
+    <system-out><![CDATA[<failure message="not a real failure"/>]]></system-out>
+  </testcase>
+</testsuite>`);
+
+    assert.deepStrictEqual(outcomes, [{ name: 'real', status: 'passed' }]);
+  });
+
+  await t.test('should return empty array for non-JUnit input', () => {
+    assert.deepStrictEqual(parseJUnitXML(''), []);
+    assert.deepStrictEqual(parseJUnitXML('not xml at all'), []);
+  });
+});
+
+test('JUnit parser - result files', async (t) => {
+  mkdirSync(join(FIXTURES_DIR, 'reports', 'nested'), { recursive: true });
+
+  await t.test('should read all files matching the pattern', () => {
+    writeFileSync(join(FIXTURES_DIR, 'reports', 'a.xml'), '<testsuite><testcase classname="A" name="one"/></testsuite>');
+    writeFileSync(join(FIXTURES_DIR, 'reports', 'nested', 'b.xml'), '<testsuite><testcase classname="B" name="two"><failure/></testcase></testsuite>');
+
+    const outcomes = readJUnitResults(join(FIXTURES_DIR, 'reports', '**', '*.xml'), 0);
+
+    assert.deepStrictEqual(outcomes.map((o) => `${o.name}:${o.status}`), ['A.one:passed', 'B.two:failed']);
+  });
+
+  await t.test('should ignore files written before the run started', () => {
+    const stale = join(FIXTURES_DIR, 'reports', 'stale.xml');
+    writeFileSync(stale, '<testsuite><testcase name="stale"/></testsuite>');
+    utimesSync(stale, new Date(2000, 0, 1), new Date(2000, 0, 1));
+
+    const outcomes = readJUnitResults(join(FIXTURES_DIR, 'reports', 'stale.xml'), Date.now() - 60_000);
+
+    assert.deepStrictEqual(outcomes, []);
+  });
+
+  await t.test('should return empty array when nothing matches', () => {
+    assert.deepStrictEqual(readJUnitResults(join(FIXTURES_DIR, 'missing', '*.xml'), 0), []);
+  });
+});
+
+test('glob - pattern matching', async (t) => {
+  await t.test('should translate wildcards', () => {
+    assert.ok(globToRegExp('reports/*.xml').test('reports/TEST-a.xml'));
+    assert.ok(!globToRegExp('reports/*.xml').test('reports/nested/TEST-a.xml'));
+    assert.ok(globToRegExp('reports/**/*.xml').test('reports/TEST-a.xml'));
+    assert.ok(globToRegExp('reports/**/*.xml').test('reports/a/b/TEST-a.xml'));
+    assert.ok(globToRegExp('TEST-?.{xml,json}').test('TEST-a.json'));
+    assert.ok(!globToRegExp('TEST-?.{xml,json}').test('TEST-ab.xml'));
+  });
+
+  await t.test('should expand patterns relative to cwd', () => {
+    const dir = join(FIXTURES_DIR, 'glob');
+    mkdirSync(join(dir, 'sub'), { recursive: true });
+    writeFileSync(join(dir, 'one.xml'), '');
+    writeFileSync(join(dir, 'two.txt'), '');
+    writeFileSync(join(dir, 'sub', 'three.xml'), '');
+
+    assert.deepStrictEqual(expandGlob('*.xml', dir), [join(dir, 'one.xml')]);
+    assert.deepStrictEqual(expandGlob('**/*.xml', dir), [join(dir, 'one.xml'), join(dir, 'sub', 'three.xml')]);
+    assert.deepStrictEqual(expandGlob('two.txt', dir), [join(dir, 'two.txt')]);
+  });
+});
+
+// ============================================================================
+// Parser Registry Tests
+// ============================================================================
+
+test('parser registry', async (t) => {
+  await t.test('should register built-in parsers', () => {
+    assert.ok(listParsers().includes('tap'));
+    assert.ok(listParsers().includes('junit'));
+    assert.strictEqual(getParser('tap')?.name, 'tap');
+  });
+
+  await t.test('should register and resolve custom parsers', () => {
+    const custom: ResultParser = {
+      name: 'registry-test',
+      parse: (run) => run.stdout.split('\n')
+        .filter((line) => line.startsWith('PASS ') || line.startsWith('FAIL '))
+        .map((line) => ({ name: line.slice(5), status: line.startsWith('PASS') ? 'passed' : 'failed' })),
+    };
+
+    registerParser(custom);
+
+    const parser = resolveParser('registry-test');
+    assert.strictEqual(parser, custom);
+    assert.deepStrictEqual(
+      parser!.parse({ success: false, exitCode: 1, stdout: 'PASS a\nFAIL b\n', stderr: '' }, { runNumber: 1, startedAt: 0 }),
+      [{ name: 'a', status: 'passed' }, { name: 'b', status: 'failed' }]
+    );
+  });
+
+  await t.test('should resolve parser objects without registering them', () => {
+    const inline: ResultParser = { name: 'inline', parse: () => [] };
+
+    assert.strictEqual(resolveParser(inline), inline);
+    assert.strictEqual(getParser('inline'), undefined);
+  });
+
+  await t.test('should return undefined for unknown parsers', () => {
+    assert.strictEqual(resolveParser('does-not-exist'), undefined);
+    assert.strictEqual(resolveParser({} as ResultParser), undefined);
+  });
+
+  await t.test('should reject invalid parsers', () => {
+    assert.throws(() => registerParser({ name: '', parse: () => [] }), /name/);
+    assert.throws(() => registerParser({ name: 'broken' } as ResultParser), /parse function/);
+  });
+
+  await t.test('junit parser should read stdout when no result files are configured', () => {
+    const outcomes = getParser('junit')!.parse(
+      { success: true, exitCode: 0, stdout: '<testsuite><testcase name="inline"/></testsuite>', stderr: '' },
+      { runNumber: 1, startedAt: Date.now() }
+    );
+
+    assert.deepStrictEqual(outcomes, [{ name: 'inline', status: 'passed' }]);
+  });
+});
+
+// ============================================================================
+// Framework Detection Tests
+// ============================================================================
+
+const runWith = (stdout: string, stderr = '') => ({ success: true, exitCode: 0, stdout, stderr });
+
+test('framework detection', async (t) => {
+  await t.test('should detect TAP output', () => {
+    assert.strictEqual(detectParser(runWith('TAP version 13\nok 1 - a\n1..1'))?.name, 'tap');
+  });
+
+  await t.test('should detect JUnit XML on stdout', () => {
+    assert.strictEqual(detectParser(runWith('<?xml version="1.0"?>\n<testsuites>\n</testsuites>'))?.name, 'junit');
+  });
+
+  await t.test('should return undefined for unrecognized output', () => {
+    assert.strictEqual(detectParser(runWith('all tests passed')), undefined);
+    assert.strictEqual(detectParser(runWith('')), undefined);
+  });
+
+  await t.test('should consider custom parsers with matches()', () => {
+    registerParser({
+      name: 'detection-test',
+      parse: () => [],
+      matches: (run) => run.stderr.includes('== detection-test runner =='),
+    });
+
+    assert.strictEqual(detectParser(runWith('', '== detection-test runner ==\n'))?.name, 'detection-test');
+  });
+
+  await t.test('should ignore parsers whose matches() throws', () => {
+    registerParser({
+      name: 'detection-throws',
+      parse: () => [],
+      matches: () => { throw new Error('sniffing bug'); },
+    });
+
+    assert.strictEqual(detectParser(runWith('plain output')), undefined);
+  });
+});
+
+// ============================================================================
+// Jest / Vitest JSON Parser Tests
+// ============================================================================
+
+/**
+ * Helper: Build a Jest/Vitest JSON report
+ */
+const jestReport = (testResults: unknown[]) => JSON.stringify({
+  numFailedTests: 0,
+  numTotalTests: 3,
+  success: true,
+  testResults,
+});
+
+test('Jest JSON parser', async (t) => {
+  await t.test('should map assertion results with ancestor titles', () => {
+    const outcomes = parseJestJSON(jestReport([
+      {
+        name: join(process.cwd(), 'src', 'math.test.ts'),
+        status: 'failed',
+        assertionResults: [
+          { ancestorTitles: ['math', 'addition'], title: 'adds', status: 'passed', duration: 4 },
+          { ancestorTitles: ['math'], title: 'divides', status: 'failed', duration: 12 },
+          { ancestorTitles: [], title: 'top level', status: 'pending', duration: null },
+          { ancestorTitles: ['math'], title: 'later', status: 'todo' },
+        ],
+      },
+    ]));
+
+    assert.deepStrictEqual(outcomes, [
+      { name: 'math > addition > adds', status: 'passed', durationMs: 4 },
+      { name: 'math > divides', status: 'failed', durationMs: 12 },
+      { name: 'top level', status: 'skipped' },
+      { name: 'math > later', status: 'skipped' },
+    ]);
+  });
+
+  await t.test('should report test files that failed without failing tests', () => {
+    const outcomes = parseJestJSON(jestReport([
+      { name: join(process.cwd(), 'src', 'broken.test.ts'), status: 'failed', assertionResults: [] },
+    ]));
+
+    assert.deepStrictEqual(outcomes, [{ name: 'src/broken.test.ts', status: 'failed' }]);
+  });
+
+  await t.test('should find the report among other output', () => {
+    const output = `> app@1.0.0 test
+> jest --json
+${jestReport([{ name: 'a.test.js', assertionResults: [{ ancestorTitles: ['a'], title: 'works', status: 'passed' }] }])}
+npm ERR! Test failed.
+`;
+
+    assert.deepStrictEqual(parseJestJSON(output), [{ name: 'a > works', status: 'passed' }]);
+  });
+
+  await t.test('should parse pretty-printed vitest reports', () => {
+    const output = JSON.stringify(JSON.parse(jestReport([
+      { name: '/repo/b.test.ts', status: 'passed', assertionResults: [{ ancestorTitles: ['b'], title: 'ok', fullName: 'b ok', status: 'passed', duration: 1.5 }] },
+    ])), null, 2);
+
+    assert.deepStrictEqual(parseJestJSON(output), [{ name: 'b > ok', status: 'passed', durationMs: 1.5 }]);
+  });
+
+  await t.test('should give up quickly on truncated reports', () => {
+    const assertionResults = Array.from({ length: 8000 }, (_, i) => ({ ancestorTitles: ['suite'], title: `test ${i}`, status: 'passed' }));
+    const output = JSON.stringify(JSON.parse(jestReport([{ name: 'big.test.js', assertionResults }])), null, 2);
+
+    const start = Date.now();
+    assert.deepStrictEqual(parseJestJSON(output.slice(0, -10)), []);
+    assert(Date.now() - start < 250, `Parsing took ${Date.now() - start}ms`);
+  });
+
+  await t.test('should return empty array for non-report output', () => {
+    assert.deepStrictEqual(parseJestJSON(''), []);
+    assert.deepStrictEqual(parseJestJSON('{"testResults": not json'), []);
+    assert.deepStrictEqual(parseJestJSON('{"other": true}'), []);
+  });
+
+  await t.test('should be detected automatically', () => {
+    const stdout = jestReport([]);
+
+    assert.strictEqual(looksLikeJestJSON(stdout), true);
+    assert.strictEqual(detectParser({ success: true, exitCode: 0, stdout, stderr: '' })?.name, 'jest-json');
+  });
+
+  await t.test('should read configured output files', () => {
+    const dir = join(FIXTURES_DIR, 'jest');
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, 'results.json'), jestReport([
+      { name: 'c.test.js', assertionResults: [{ ancestorTitles: [], title: 'from file', status: 'failed' }] },
+    ]));
+
+    const outcomes = getParser('jest-json')!.parse(
+      { success: false, exitCode: 1, stdout: 'FAIL c.test.js', stderr: '' },
+      { runNumber: 1, startedAt: Date.now() - 1000, resultFiles: join(dir, '*.json') }
+    );
+
+    assert.deepStrictEqual(outcomes, [{ name: 'from file', status: 'failed' }]);
+  });
+});
+
+// ============================================================================
+// go test -json Parser Tests
+// ============================================================================
+
+/**
+ * Helper: Build a go test -json event stream
+ */
+const goEvents = (...events: object[]) => events.map((event) => JSON.stringify({ Time: '2026-01-10T10:00:00Z', ...event })).join('\n');
+
+test('go test -json parser', async (t) => {
+  await t.test('should parse test results with durations', () => {
+    const outcomes = parseGoTestJSON(goEvents(
+      { Action: 'start', Package: 'example.com/api' },
+      { Action: 'run', Package: 'example.com/api', Test: 'TestFetch' },
+      { Action: 'output', Package: 'example.com/api', Test: 'TestFetch', Output: '=== RUN   TestFetch\n' },
+      { Action: 'pass', Package: 'example.com/api', Test: 'TestFetch', Elapsed: 0.01 },
+      { Action: 'run', Package: 'example.com/api', Test: 'TestRetry' },
+      { Action: 'fail', Package: 'example.com/api', Test: 'TestRetry', Elapsed: 1.5 },
+      { Action: 'run', Package: 'example.com/api', Test: 'TestLater' },
+      { Action: 'skip', Package: 'example.com/api', Test: 'TestLater', Elapsed: 0 },
+      { Action: 'fail', Package: 'example.com/api', Elapsed: 1.6 },
+    ));
+
+    assert.deepStrictEqual(outcomes, [
+      { name: 'example.com/api.TestFetch', status: 'passed', durationMs: 10 },
+      { name: 'example.com/api.TestRetry', status: 'failed', durationMs: 1500 },
+      { name: 'example.com/api.TestLater', status: 'skipped', durationMs: 0 },
+    ]);
+  });
+
+  await t.test('should report subtests instead of their parents', () => {
+    const outcomes = parseGoTestJSON(goEvents(
+      { Action: 'run', Package: 'pkg', Test: 'TestTable' },
+      { Action: 'run', Package: 'pkg', Test: 'TestTable/case_1' },
+      { Action: 'run', Package: 'pkg', Test: 'TestTable/case_2' },
+      { Action: 'pass', Package: 'pkg', Test: 'TestTable/case_1' },
+      { Action: 'fail', Package: 'pkg', Test: 'TestTable/case_2' },
+      { Action: 'fail', Package: 'pkg', Test: 'TestTable' },
+      { Action: 'fail', Package: 'pkg' },
+    ));
+
+    assert.deepStrictEqual(outcomes.map((o) => `${o.name}:${o.status}`), [
+      'pkg.TestTable/case_1:passed',
+      'pkg.TestTable/case_2:failed',
+    ]);
+  });
+
+  await t.test('should report parent failures not explained by subtests', () => {
+    const outcomes = parseGoTestJSON(goEvents(
+      { Action: 'run', Package: 'pkg', Test: 'TestCleanup' },
+      { Action: 'run', Package: 'pkg', Test: 'TestCleanup/works' },
+      { Action: 'pass', Package: 'pkg', Test: 'TestCleanup/works' },
+      { Action: 'fail', Package: 'pkg', Test: 'TestCleanup' },
+    ));
+
+    assert.deepStrictEqual(outcomes.map((o) => `${o.name}:${o.status}`), [
+      'pkg.TestCleanup:failed',
+      'pkg.TestCleanup/works:passed',
+    ]);
+  });
+
+  await t.test('should fail unfinished tests in a failed package (panic)', () => {
+    const outcomes = parseGoTestJSON(goEvents(
+      { Action: 'run', Package: 'pkg', Test: 'TestPanics' },
+      { Action: 'output', Package: 'pkg', Test: 'TestPanics', Output: 'panic: nil map\n' },
+      { Action: 'fail', Package: 'pkg', Elapsed: 0.2 },
+    ));
+
+    assert.deepStrictEqual(outcomes, [{ name: 'pkg.TestPanics', status: 'failed' }]);
+  });
+
+  await t.test('should report package failures without failing tests', () => {
+    const outcomes = parseGoTestJSON(goEvents(
+      { Action: 'output', Package: 'example.com/broken', Output: 'FAIL\texample.com/broken [build failed]\n' },
+      { Action: 'fail', Package: 'example.com/broken', Elapsed: 0 },
+    ));
+
+    assert.deepStrictEqual(outcomes, [{ name: 'example.com/broken', status: 'failed' }]);
+  });
+
+  await t.test('should ignore non-event lines and be detected automatically', () => {
+    const stdout = `go: downloading example.com/dep v1.0.0
+${goEvents({ Action: 'run', Package: 'pkg', Test: 'TestA' }, { Action: 'pass', Package: 'pkg', Test: 'TestA' })}
+`;
+
+    assert.deepStrictEqual(parseGoTestJSON(stdout), [{ name: 'pkg.TestA', status: 'passed' }]);
+    assert.strictEqual(detectParser({ success: true, exitCode: 0, stdout, stderr: '' })?.name, 'go-json');
+    assert.deepStrictEqual(parseGoTestJSON('ok  \tpkg\t0.01s'), []);
+  });
+});
+
+// ============================================================================
+// pytest and cargo test Parser Tests
+// ============================================================================
+
+test('pytest parser', async (t) => {
+  await t.test('should parse -v output', () => {
+    const outcomes = parsePytest(`============================= test session starts ==============================
+platform linux -- Python 3.12.0, pytest-8.0.0, pluggy-1.4.0
+collected 5 items
+
+tests/test_api.py::test_fetch PASSED                                     [ 20%]
+tests/test_api.py::TestClient::test_retry FAILED                         [ 40%]
+tests/test_api.py::test_params[a b-1] PASSED                             [ 60%]
+tests/test_api.py::test_windows SKIPPED (not on linux)                   [ 80%]
+tests/test_api.py::test_known_bug XFAIL                                  [100%]
+`);
+
+    assert.deepStrictEqual(outcomes, [
+      { name: 'tests/test_api.py::test_fetch', status: 'passed' },
+      { name: 'tests/test_api.py::TestClient::test_retry', status: 'failed' },
+      { name: 'tests/test_api.py::test_params[a b-1]', status: 'passed' },
+      { name: 'tests/test_api.py::test_windows', status: 'skipped' },
+      { name: 'tests/test_api.py::test_known_bug', status: 'skipped' },
+    ]);
+  });
+
+  await t.test('should parse -rA short test summary', () => {
+    const outcomes = parsePytest(`=========================== short test summary info ============================
+PASSED tests/test_db.py::test_connect
+FAILED tests/test_db.py::test_query - AssertionError: assert 1 == 2
+ERROR tests/test_db.py::test_migrate - ConnectionError
+SKIPPED [1] tests/test_db.py:42: requires postgres
+`);
+
+    assert.deepStrictEqual(outcomes.map((o) => `${o.name}:${o.status}`), [
+      'tests/test_db.py::test_connect:passed',
+      'tests/test_db.py::test_query:failed',
+      'tests/test_db.py::test_migrate:failed',
+    ]);
+  });
+
+  await t.test('should parse pytest-xdist output', () => {
+    const outcomes = parsePytest('[gw1] [ 50%] PASSED tests/test_a.py::test_one\n[gw0] [100%] FAILED tests/test_a.py::test_two');
+
+    assert.deepStrictEqual(outcomes.map((o) => o.status), ['passed', 'failed']);
+  });
+
+  await t.test('should merge repeated reports with failure taking precedence', () => {
+    const outcomes = parsePytest(`tests/test_a.py::test_teardown PASSED [100%]
+tests/test_a.py::test_teardown ERROR [100%]
+PASSED tests/test_a.py::test_teardown
+`);
+
+    assert.deepStrictEqual(outcomes, [{ name: 'tests/test_a.py::test_teardown', status: 'failed' }]);
+  });
+
+  await t.test('should be detected automatically', () => {
+    const stdout = '============================= test session starts ==============================\n';
+
+    assert.strictEqual(detectParser({ success: true, exitCode: 0, stdout, stderr: '' })?.name, 'pytest');
+    assert.deepStrictEqual(parsePytest('all good'), []);
+  });
+});
+
+test('cargo test parser', async (t) => {
+  await t.test('should parse libtest output', () => {
+    const outcomes = parseCargoTest(`   Compiling mycrate v0.1.0
+    Finished test [unoptimized + debuginfo] target(s) in 0.5s
+     Running unittests src/lib.rs (target/debug/deps/mycrate-1a2b3c)
+
+running 4 tests
+test tests::adds ... ok
+test tests::divides ... FAILED
+test tests::slow ... ignored, takes too long
+test tests::panics - should panic ... ok
+
+failures:
+
+---- tests::divides stdout ----
+thread 'tests::divides' panicked at src/lib.rs:20:9
+
+test result: FAILED. 2 passed; 1 failed; 1 ignored; 0 measured; 0 filtered out
+
+   Doc-tests mycrate
+
+running 1 test
+test src/lib.rs - add (line 5) ... ok
+
+test result: ok. 1 passed; 0 failed; 0 ignored; 0 measured; 0 filtered out
+`);
+
+    assert.deepStrictEqual(outcomes, [
+      { name: 'tests::adds', status: 'passed' },
+      { name: 'tests::divides', status: 'failed' },
+      { name: 'tests::slow', status: 'skipped' },
+      { name: 'tests::panics - should panic', status: 'passed' },
+      { name: 'src/lib.rs - add (line 5)', status: 'passed' },
+    ]);
+  });
+
+  await t.test('should be detected automatically', () => {
+    const stdout = 'running 1 test\ntest it_works ... ok\n\ntest result: ok. 1 passed; 0 failed\n';
+
+    assert.strictEqual(detectParser({ success: true, exitCode: 0, stdout, stderr: '' })?.name, 'cargo');
+    assert.deepStrictEqual(parseCargoTest('no tests here'), []);
+  });
+});
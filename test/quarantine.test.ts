@@ -0,0 +1,193 @@
+/**
+ * Tests for the quarantine of known flaky tests
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  readQuarantine,
+  writeQuarantine,
+  addToQuarantine,
+  removeFromQuarantine,
+  pruneQuarantine,
+  markQuarantined,
+  isExpired,
+  detectFlakiness,
+} from '../src/index.js';
+import type { DetectionReport, QuarantineEntry } from '../src/index.js';
+
+const NOW = new Date('2026-10-19T08:00:00Z');
+
+/**
+ * Helper: Create a quarantine entry
+ */
+function createEntry(testName: string, expires?: string): QuarantineEntry {
+  const entry: QuarantineEntry = { test: testName, reason: 'https://github.com/org/repo/issues/42', added: '2026-10-01' };
+  if (expires) {
+    entry.expires = expires;
+  }
+  return entry;
+}
+
+/**
+ * Helper: Create a report with the given flaky tests
+ */
+function createReport(flakyTests: string[]): DetectionReport {
+  return {
+    success: true,
+    totalRuns: 2,
+    passedRuns: 1,
+    failedRuns: 1,
+    flakyTests: flakyTests.map((testName) => ({ testName, passed: 1, failed: 1, totalRuns: 2, failureRate: 50 })),
+    runs: [],
+  };
+}
+
+/**
+ * Helper: Create a temporary quarantine file path
+ */
+function createQuarantineFile(): string {
+  return join(mkdtempSync(join(tmpdir(), 'flaky-quarantine-')), '.flaky-quarantine.json');
+}
+
+// ============================================================================
+// Entries
+// ============================================================================
+
+test('quarantine - entries', async (t) => {
+  await t.test('expire after their last day', () => {
+    assert.strictEqual(isExpired(createEntry('login', '2026-10-19'), NOW), false);
+    assert.strictEqual(isExpired(createEntry('login', '2026-10-18'), NOW), true);
+    assert.strictEqual(isExpired(createEntry('login'), NOW), false);
+  });
+
+  await t.test('adding replaces the entry of the same test', () => {
+    const entries = addToQuarantine([createEntry('login', '2026-10-10'), createEntry('signup')], createEntry('login', '2026-11-30'));
+
+    assert.deepStrictEqual(
+      entries.map((entry) => [entry.test, entry.expires]),
+      [
+        ['signup', undefined],
+        ['login', '2026-11-30'],
+      ]
+    );
+  });
+
+  await t.test('adding rejects incomplete entries', () => {
+    assert.throws(() => addToQuarantine([], { ...createEntry('login'), reason: ' ' }), /Reason/);
+    assert.throws(() => addToQuarantine([], { ...createEntry('login'), test: '' }), /Test name/);
+    assert.throws(() => addToQuarantine([], createEntry('login', '30 days')), /YYYY-MM-DD/);
+    assert.throws(() => addToQuarantine([], createEntry('login', '2026-09-30')), /before the date added/);
+  });
+
+  await t.test('removing needs a quarantined test', () => {
+    assert.deepStrictEqual(removeFromQuarantine([createEntry('login'), createEntry('signup')], 'login'), [createEntry('signup')]);
+    assert.throws(() => removeFromQuarantine([createEntry('signup')], 'login'), /login is not quarantined/);
+  });
+
+  await t.test('pruning drops expired entries', () => {
+    const entries = [createEntry('login', '2026-10-18'), createEntry('signup', '2026-10-20'), createEntry('search')];
+
+    assert.deepStrictEqual(pruneQuarantine(entries, NOW).map((entry) => entry.test), ['signup', 'search']);
+  });
+});
+
+// ============================================================================
+// Quarantine File
+// ============================================================================
+
+test('quarantine - readQuarantine and writeQuarantine', async (t) => {
+  await t.test('round-trips entries sorted by test', async () => {
+    const file = createQuarantineFile();
+    await writeQuarantine(file, [createEntry('signup', '2026-11-30'), { ...createEntry('login'), owner: 'alice' }]);
+
+    assert.deepStrictEqual(JSON.parse(readFileSync(file, 'utf-8')).tests.map((entry: QuarantineEntry) => entry.test), ['login', 'signup']);
+    assert.deepStrictEqual(await readQuarantine(file), [{ ...createEntry('login'), owner: 'alice' }, createEntry('signup', '2026-11-30')]);
+    rmSync(join(file, '..'), { recursive: true, force: true });
+  });
+
+  await t.test('returns nothing without a quarantine file', async () => {
+    assert.deepStrictEqual(await readQuarantine(join(tmpdir(), `missing-quarantine-${Date.now()}.json`)), []);
+  });
+
+  await t.test('rejects invalid files', async () => {
+    const file = createQuarantineFile();
+
+    writeFileSync(file, '{"tests": [');
+    await assert.rejects(readQuarantine(file), /not valid JSON/);
+    writeFileSync(file, '[]');
+    await assert.rejects(readQuarantine(file), /no "tests" list/);
+    writeFileSync(file, JSON.stringify({ tests: [createEntry('login'), { test: 'signup', reason: 'flaky', added: 'yesterday' }] }));
+    await assert.rejects(readQuarantine(file), /Entry 2 of .* needs a test, a reason and YYYY-MM-DD dates/);
+    rmSync(join(file, '..'), { recursive: true, force: true });
+  });
+});
+
+// ============================================================================
+// Reports
+// ============================================================================
+
+test('quarantine - markQuarantined', async (t) => {
+  await t.test('marks flaky tests with an unexpired entry', () => {
+    const report = createReport(['login', 'signup', 'search']);
+
+    markQuarantined(report, [createEntry('login', '2026-10-31'), createEntry('search', '2026-10-18'), createEntry('checkout')], NOW);
+
+    assert.deepStrictEqual(
+      report.flakyTests.map((test) => [test.testName, test.quarantined]),
+      [
+        ['login', true],
+        ['signup', undefined],
+        ['search', undefined],
+      ]
+    );
+    assert.deepStrictEqual(report.expiredQuarantine, [createEntry('search', '2026-10-18')]);
+  });
+
+  await t.test('leaves reports without expired entries unchanged', () => {
+    const report = createReport(['login']);
+
+    markQuarantined(report, [createEntry('signup')], NOW);
+
+    assert.deepStrictEqual(report, createReport(['login']));
+  });
+});
+
+// ============================================================================
+// Detector Integration
+// ============================================================================
+
+test('quarantine - detections with quarantineFile mark quarantined tests', async () => {
+  const file = createQuarantineFile();
+  const counterFile = join(file, '..', 'counter.txt');
+  await writeQuarantine(file, [createEntry('Test Suite'), createEntry('retired', '2026-01-01')]);
+
+  const report = await detectFlakiness({
+    testCommand: `bash -c 'COUNT=$(( $(cat ${counterFile} 2>/dev/null || echo 0) + 1 )); echo $COUNT > ${counterFile}; [ $((COUNT % 2)) -eq 1 ]'`,
+    runs: 4,
+    quarantineFile: file,
+  });
+
+  assert.strictEqual(report.success, true);
+  assert.strictEqual(report.flakyTests[0]?.quarantined, true);
+  assert.deepStrictEqual(report.expiredQuarantine?.map((entry) => entry.test), ['retired']);
+  rmSync(join(file, '..'), { recursive: true, force: true });
+});
+
+test('quarantine - invalid quarantine files fail before any run', async () => {
+  const file = createQuarantineFile();
+  writeFileSync(file, 'not json');
+
+  const report = await detectFlakiness({ testCommand: 'exit 0', runs: 2, quarantineFile: file });
+
+  assert.strictEqual(report.success, false);
+  assert.match(report.error ?? '', /Failed to read quarantine: .* is not valid JSON/);
+  assert.strictEqual(report.totalRuns, 0);
+  rmSync(join(file, '..'), { recursive: true, force: true });
+
+  const blank = await detectFlakiness({ testCommand: 'exit 0', runs: 1, quarantineFile: ' ' });
+  assert.match(blank.error ?? '', /Quarantine file must be a non-empty string/);
+});
@@ -0,0 +1,188 @@
+/**
+ * Tests for failure signature extraction and clustering
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { rmSync, writeFileSync } from 'node:fs';
+import { failureSignature, clusterFailures } from '../src/signatures.js';
+import { detectFlakiness } from '../src/index.js';
+import { createRun } from './helpers.js';
+
+// ============================================================================
+// Signatures
+// ============================================================================
+
+test('signatures - failureSignature', async (t) => {
+  await t.test('ignores run-specific details', () => {
+    const first = failureSignature(createRun(false, { stderr: 'Error: connect ECONNREFUSED 127.0.0.1:50123\n    at TCPConnectWrap' }));
+    const second = failureSignature(createRun(false, { stderr: 'Error: connect ECONNREFUSED 127.0.0.1:61877\n    at TCPConnectWrap' }));
+
+    assert.strictEqual(first.signature, second.signature);
+    assert.match(first.signature, /^[0-9a-f]{12}$/);
+  });
+
+  await t.test('distinguishes different failures', () => {
+    const assertion = failureSignature(createRun(false, { stderr: 'AssertionError: expected 200 to equal 500' }));
+    const timeout = failureSignature(createRun(false, { stderr: 'Error: Timeout of 2000ms exceeded' }));
+
+    assert.notStrictEqual(assertion.signature, timeout.signature);
+  });
+
+  await t.test('uses the first assertion or stack frame line', () => {
+    const stderr = 'Running suite...\nAssertionError: expected true\n    at test (a.test.ts:3:1)\n    at run (runner.ts:9:2)\n    at main';
+    const { excerpt } = failureSignature(createRun(false, { stderr }));
+
+    assert.strictEqual(excerpt, 'AssertionError: expected true\nat test (a.test.ts:3:1)\nat run (runner.ts:9:2)');
+  });
+
+  await t.test('falls back to stdout and the exit code', () => {
+    assert.strictEqual(failureSignature(createRun(false, { stdout: 'not ok 3 - login works' })).excerpt, 'not ok 3 - login works');
+    assert.strictEqual(failureSignature(createRun(false, { stdout: 'done\nsomething broke\n' })).excerpt, 'something broke');
+    assert.strictEqual(failureSignature(createRun(false)).excerpt, 'Exit code 1');
+  });
+
+  await t.test('groups timed-out runs together', () => {
+    const first = failureSignature(createRun(false, { stderr: 'waiting...', timedOut: true }));
+    const second = failureSignature(createRun(false, { stderr: 'still waiting', timedOut: true }));
+
+    assert.strictEqual(first.signature, second.signature);
+  });
+});
+
+/**
+ * Helper: node:test TAP output of a test failing with the given error
+ */
+function tapFailure(testName: string, name: string, message: string, passing = 'logs out'): string {
+  return [
+    'TAP version 13',
+    `# Subtest: ${passing}`,
+    `ok 1 - ${passing}`,
+    `# Subtest: ${testName}`,
+    `not ok 2 - ${testName}`,
+    '  ---',
+    '  duration_ms: 1.5',
+    "  failureType: 'testCodeFailure'",
+    `  error: '${message}'`,
+    `  name: '${name}'`,
+    '  stack: |-',
+    '    TestContext.<anonymous> (file:///app/login.test.js:7:10)',
+    '  ...',
+    '1..2',
+    '# tests 2',
+    '# fail 1',
+  ].join('\n');
+}
+
+test('signatures - TAP output', async (t) => {
+  await t.test('tells distinct errors of the same test apart', () => {
+    const assertionOutput = tapFailure('expects user to log in', 'AssertionError', 'Expected values to be strictly equal');
+    const typeErrorOutput = tapFailure('expects user to log in', 'TypeError', "Cannot read properties of undefined (reading 'id')");
+    const assertion = failureSignature(createRun(false, { stdout: assertionOutput }));
+    const typeError = failureSignature(createRun(false, { stdout: typeErrorOutput }));
+
+    assert.notStrictEqual(assertion.signature, typeError.signature);
+    assert.strictEqual(assertion.excerpt, "error: 'Expected values to be strictly equal'\nname: 'AssertionError'\nstack: |-");
+  });
+
+  await t.test('ignores test headers and summaries', () => {
+    const stdout = 'TAP version 13\n# Subtest: asserts FAIL handling\nnot ok 1 - asserts FAIL handling\n1..1\n# fail 1';
+    const { excerpt } = failureSignature(createRun(false, { stdout }));
+
+    assert.strictEqual(excerpt, '# fail 1');
+  });
+
+  await t.test("uses the failing test's own section", () => {
+    const stdout = [
+      'TAP version 13',
+      'not ok 1 - signup',
+      '  ---',
+      "  error: 'database locked'",
+      '  ...',
+      'not ok 2 - login',
+      '  ---',
+      "  error: 'session expired'",
+      '  ...',
+      '1..2',
+    ].join('\n');
+    const run = createRun(false, { stdout });
+
+    assert.strictEqual(failureSignature(run).excerpt, "error: 'database locked'\n...\nnot ok 2 - login");
+    assert.strictEqual(failureSignature(run, undefined, 'login').excerpt, "error: 'session expired'\n...");
+    assert.strictEqual(failureSignature(run, undefined, 'checkout').excerpt, failureSignature(run).excerpt);
+  });
+});
+
+test('signatures - clusterFailures', async (t) => {
+  await t.test('groups failed runs by signature, most common first', () => {
+    const runs = [
+      createRun(false, { stderr: 'Error: Timeout of 2000ms exceeded', runNumber: 1 }),
+      createRun(true, { runNumber: 2 }),
+      createRun(false, { stderr: 'AssertionError: expected 200 to equal 500 (pid 11)', runNumber: 3 }),
+      createRun(false, { stderr: 'AssertionError: expected 200 to equal 500 (pid 12)', runNumber: 4 }),
+    ];
+
+    const clusters = clusterFailures(runs);
+
+    assert.strictEqual(clusters.length, 2);
+    assert.strictEqual(clusters[0]?.count, 2);
+    assert.deepStrictEqual(clusters[0]?.runNumbers, [3, 4]);
+    assert.strictEqual(clusters[0]?.excerpt, 'AssertionError: expected 200 to equal 500 (pid 11)');
+    assert.deepStrictEqual(clusters[1]?.runNumbers, [1]);
+  });
+
+  await t.test('accepts a custom failure predicate', () => {
+    const runs = [createRun(false, { stderr: 'Error: a' }), createRun(false, { stderr: 'Error: b' })];
+
+    assert.deepStrictEqual(clusterFailures(runs, (run) => run.stderr === 'Error: b').map((cluster) => cluster.runNumbers), [[2]]);
+    assert.deepStrictEqual(clusterFailures([createRun(true)]), []);
+  });
+});
+
+// ============================================================================
+// Detector Integration
+// ============================================================================
+
+test('signatures - detectFlakiness() reports failure clusters', async () => {
+  const counterFile = `/tmp/signatures-counter-${Date.now()}-${Math.random()}.txt`;
+  // Runs 2 and 4 fail with one error, run 3 with another
+  const report = await detectFlakiness({
+    testCommand: `bash -c 'COUNT=$(( $(cat ${counterFile} 2>/dev/null || echo 0) + 1 )); echo $COUNT > ${counterFile}; if [ $COUNT -eq 3 ]; then echo "Error: database locked" >&2; exit 1; elif [ $((COUNT % 2)) -eq 0 ]; then echo "Error: connect ECONNREFUSED 127.0.0.1:$((40000 + COUNT))" >&2; exit 1; fi'`,
+    runs: 5,
+  });
+
+  const clusters = report.flakyTests[0]?.failureClusters;
+  assert(clusters);
+  assert.deepStrictEqual(
+    clusters.map(({ count, runNumbers }) => ({ count, runNumbers })),
+    [
+      { count: 2, runNumbers: [2, 4] },
+      { count: 1, runNumbers: [3] },
+    ]
+  );
+  assert.strictEqual(clusters[0]?.excerpt, 'Error: connect ECONNREFUSED 127.0.0.1:40002');
+  assert.deepStrictEqual(report.failureClusters, clusters);
+
+  const stable = await detectFlakiness({ testCommand: 'exit 0', runs: 2 });
+  assert.strictEqual(stable.failureClusters, undefined);
+});
+
+test('signatures - per-test clusters describe that test', async () => {
+  const counterFile = `/tmp/signatures-tap-counter-${Date.now()}-${Math.random()}.txt`;
+  // signup fails every run; login fails on even runs with its own error
+  const script = [
+    `COUNT=$(( $(cat ${counterFile} 2>/dev/null || echo 0) + 1 )); echo $COUNT > ${counterFile}`,
+    'echo "TAP version 13"; echo "not ok 1 - signup"; echo "  ---"; echo "  error: database locked"; echo "  ..."',
+    'if [ $((COUNT % 2)) -eq 0 ]; then echo "not ok 2 - login"; echo "  ---"; echo "  error: session expired"; echo "  ..."; else echo "ok 2 - login"; fi',
+    'echo "1..2"; exit 1',
+  ].join('\n');
+  const scriptFile = `/tmp/signatures-tap-${Date.now()}-${Math.random()}.sh`;
+  writeFileSync(scriptFile, script);
+
+  const report = await detectFlakiness({ testCommand: `bash ${scriptFile}`, runs: 4 });
+
+  assert.deepStrictEqual(report.flakyTests.map((test) => test.testName), ['login']);
+  assert.strictEqual(report.flakyTests[0]?.failureClusters?.[0]?.excerpt, 'error: session expired\n...');
+  rmSync(scriptFile, { force: true });
+  rmSync(counterFile, { force: true });
+});
@@ -0,0 +1,206 @@
+/**
+ * Tests for failure rate statistics and confidence-driven detection
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  binomialCdf,
+  failureRateConfidence,
+  achievedConfidence,
+  normalQuantile,
+  wilsonInterval,
+  thresholdPValue,
+  runsToDetect,
+} from '../src/statistics.js';
+import { detectFlakiness } from '../src/index.js';
+import { assertClose } from './helpers.js';
+
+// ============================================================================
+// Binomial Distribution
+// ============================================================================
+
+test('statistics - binomialCdf', async (t) => {
+  await t.test('matches closed-form values', () => {
+    assertClose(binomialCdf(0, 10, 0.1), 0.9 ** 10);
+    assertClose(binomialCdf(1, 2, 0.5), 0.75);
+    assertClose(binomialCdf(5, 10, 0.5), 0.623046875);
+  });
+
+  await t.test('handles bounds', () => {
+    assert.strictEqual(binomialCdf(-1, 10, 0.5), 0);
+    assert.strictEqual(binomialCdf(10, 10, 0.5), 1);
+    assert.strictEqual(binomialCdf(0, 10, 0), 1);
+    assert.strictEqual(binomialCdf(9, 10, 1), 0);
+  });
+
+  await t.test('stays accurate for large run counts', () => {
+    assertClose(binomialCdf(500, 1000, 0.5), 0.512612509089, 1e-9);
+  });
+});
+
+// ============================================================================
+// Confidence
+// ============================================================================
+
+test('statistics - failureRateConfidence', async (t) => {
+  await t.test('grows with consecutive passes below the threshold', () => {
+    assertClose(failureRateConfidence(58, 0, 5), (1 - 0.95 ** 58) * 100);
+    assert(failureRateConfidence(58, 0, 5) < 95);
+    assert(failureRateConfidence(59, 0, 5) >= 95);
+  });
+
+  await t.test('is high when failures clearly exceed the threshold', () => {
+    assert(failureRateConfidence(10, 10, 5) > 99.99);
+  });
+
+  await t.test('is low when the observed rate is near the threshold', () => {
+    assert(failureRateConfidence(95, 5, 5) < 60);
+  });
+
+  await t.test('cannot show a never-failing test is at or below a threshold of 0', () => {
+    assert.strictEqual(failureRateConfidence(100, 0, 0), 0);
+    assert.strictEqual(failureRateConfidence(1, 1, 0), 100);
+  });
+
+  await t.test('is 0 without runs', () => {
+    assert.strictEqual(failureRateConfidence(0, 0, 5), 0);
+  });
+
+  await t.test('achievedConfidence uses the least certain test', () => {
+    const tallies = [
+      { testName: 'a', passed: 100, failed: 0 },
+      { testName: 'b', passed: 10, failed: 0 },
+    ];
+    assertClose(achievedConfidence(tallies, 5), failureRateConfidence(10, 0, 5));
+    assert.strictEqual(achievedConfidence([], 5), 0);
+  });
+});
+
+// ============================================================================
+// Report Statistics
+// ============================================================================
+
+test('statistics - normalQuantile', async (t) => {
+  await t.test('matches standard normal quantiles', () => {
+    assertClose(normalQuantile(0.5), 0);
+    assertClose(normalQuantile(0.975), 1.959963985, 1e-6);
+    assertClose(normalQuantile(0.995), 2.575829304, 1e-6);
+    assertClose(normalQuantile(0.01), -2.326347874, 1e-6);
+  });
+});
+
+test('statistics - wilsonInterval', async (t) => {
+  await t.test('distinguishes small and large samples with the same rate', () => {
+    const small = wilsonInterval(2, 1);
+    const large = wilsonInterval(200, 100);
+
+    assertClose(small.lower, 6.149, 1e-3);
+    assertClose(small.upper, 79.234, 1e-3);
+    assertClose(large.lower, 28.239, 1e-3);
+    assertClose(large.upper, 38.849, 1e-3);
+    assert.strictEqual(large.confidence, 95);
+    assert.strictEqual(large.method, 'wilson');
+  });
+
+  await t.test('widens with a higher confidence level', () => {
+    const interval95 = wilsonInterval(7, 3);
+    const interval99 = wilsonInterval(7, 3, 99);
+
+    assert(interval99.lower < interval95.lower);
+    assert(interval99.upper > interval95.upper);
+    assert.strictEqual(interval99.confidence, 99);
+  });
+
+  await t.test('stays within 0-100%', () => {
+    const allPassed = wilsonInterval(10, 0);
+    const allFailed = wilsonInterval(0, 10);
+
+    assert.strictEqual(allPassed.lower, 0);
+    assert(allPassed.upper > 0 && allPassed.upper < 100);
+    assert.strictEqual(allFailed.upper, 100);
+    assert.deepStrictEqual(wilsonInterval(0, 0), { lower: 0, upper: 100, confidence: 95, method: 'wilson' });
+  });
+});
+
+test('statistics - thresholdPValue', async (t) => {
+  await t.test('is the chance of at least this many failures at the threshold rate', () => {
+    assertClose(thresholdPValue(9, 1, 10), 1 - 0.9 ** 10);
+    assert(thresholdPValue(5, 5, 10) < 0.01);
+  });
+
+  await t.test('is 1 without failures and 0 for failures above a zero threshold', () => {
+    assert.strictEqual(thresholdPValue(10, 0, 10), 1);
+    assert.strictEqual(thresholdPValue(9, 1, 0), 0);
+  });
+});
+
+test('statistics - runsToDetect', async (t) => {
+  await t.test('estimates runs needed to see a failure', () => {
+    assert.strictEqual(runsToDetect(10), 29);
+    assert.strictEqual(runsToDetect(1, 99), 459);
+    assert.strictEqual(runsToDetect(50), 5);
+  });
+
+  await t.test('handles extreme rates', () => {
+    assert.strictEqual(runsToDetect(100), 1);
+    assert.strictEqual(runsToDetect(0), Infinity);
+  });
+});
+
+test('statistics - flaky tests carry statistics', async () => {
+  const counterFile = `/tmp/statistics-counter-${Date.now()}-${Math.random()}.txt`;
+  const report = await detectFlakiness({
+    testCommand: `bash -c 'COUNT=$(( $(cat ${counterFile} 2>/dev/null || echo 0) + 1 )); echo $COUNT > ${counterFile}; [ $((COUNT % 2)) -eq 0 ]'`,
+    runs: 4,
+  });
+
+  const flaky = report.flakyTests[0];
+  assert(flaky);
+  assert.deepStrictEqual(flaky.confidenceInterval, wilsonInterval(2, 2));
+  assert.strictEqual(flaky.pValue, 0);
+  assert.strictEqual(flaky.runsToDetect, runsToDetect(50));
+});
+
+// ============================================================================
+// Confidence-driven Detection
+// ============================================================================
+
+test('statistics - detectFlakiness() with a target confidence', async (t) => {
+  await t.test('stops once the target confidence is reached', async () => {
+    const report = await detectFlakiness({ testCommand: 'exit 0', threshold: 5, confidence: 95 });
+
+    assert.strictEqual(report.success, true);
+    assert.strictEqual(report.totalRuns, 59);
+    assert.strictEqual(report.stoppedEarly, true);
+    assert.strictEqual(report.targetConfidence, 95);
+    assert(report.confidence !== undefined && report.confidence >= 95);
+  });
+
+  await t.test('records the confidence reached when the run budget runs out', async () => {
+    const report = await detectFlakiness({ testCommand: 'exit 0', runs: 10, threshold: 5, confidence: 99 });
+
+    assert.strictEqual(report.totalRuns, 10);
+    assert.strictEqual(report.stoppedEarly, undefined);
+    assertClose(report.confidence ?? 0, (1 - 0.95 ** 10) * 100);
+  });
+
+  await t.test('stops starting runs when the duration budget runs out', async () => {
+    const report = await detectFlakiness({ testCommand: 'sleep 0.2', runs: 50, maxDurationMs: 500 });
+
+    assert.strictEqual(report.success, true);
+    assert(report.totalRuns >= 2 && report.totalRuns <= 4, `Expected 2-4 runs, got ${report.totalRuns}`);
+  });
+
+  await t.test('rejects invalid confidence and duration', async () => {
+    for (const confidence of [0, 49, 100, 150]) {
+      const report = await detectFlakiness({ testCommand: 'exit 0', runs: 2, confidence });
+      assert.strictEqual(report.success, false);
+      assert.match(report.error ?? '', /confidence/i);
+    }
+
+    const report = await detectFlakiness({ testCommand: 'exit 0', runs: 2, maxDurationMs: 0 });
+    assert.strictEqual(report.success, false);
+    assert.match(report.error ?? '', /duration/i);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for run duration tracking and timing analysis
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { durationStats, durationCorrelation, durationSamples } from '../src/timing.js';
+import { calculateFlakyTests } from '../src/detector.js';
+import { detectFlakiness } from '../src/index.js';
+import type { TestRunResult } from '../src/index.js';
+import { assertClose, createRun } from './helpers.js';
+
+/**
+ * Helper: Create suite-level runs from their outcome and duration
+ */
+function timedRuns(outcomes: Array<[boolean, number]>): TestRunResult[] {
+  return outcomes.map(([success, durationMs]) => createRun(success, { durationMs }));
+}
+
+// ============================================================================
+// Duration Statistics
+// ============================================================================
+
+test('timing - durationStats', async (t) => {
+  await t.test('summarizes durations', () => {
+    const stats = durationStats([300, 100, 200]);
+
+    assert(stats);
+    assert.strictEqual(stats.min, 100);
+    assert.strictEqual(stats.median, 200);
+    assertClose(stats.p95, 290);
+    assert.strictEqual(stats.max, 300);
+    assertClose(stats.coefficientOfVariation, Math.sqrt(20000 / 3) / 200);
+  });
+
+  await t.test('interpolates the median of an even count', () => {
+    assert.strictEqual(durationStats([10, 20, 30, 40])?.median, 25);
+  });
+
+  await t.test('handles constant and missing durations', () => {
+    assert.deepStrictEqual(durationStats([50, 50]), { min: 50, median: 50, p95: 50, max: 50, coefficientOfVariation: 0 });
+    assert.strictEqual(durationStats([]), undefined);
+  });
+});
+
+// ============================================================================
+// Duration Correlation
+// ============================================================================
+
+test('timing - durationCorrelation', async (t) => {
+  await t.test('is 1 when failing runs are exactly the slow ones', () => {
+    const samples = [
+      { durationMs: 100, failed: false },
+      { durationMs: 100, failed: false },
+      { durationMs: 900, failed: true },
+    ];
+    assertClose(durationCorrelation(samples) ?? 0, 1);
+  });
+
+  await t.test('is negative when failing runs are the fast ones', () => {
+    const samples = [
+      { durationMs: 10, failed: true },
+      { durationMs: 500, failed: false },
+      { durationMs: 520, failed: false },
+    ];
+    assert((durationCorrelation(samples) ?? 0) < -0.9);
+  });
+
+  await t.test('is near 0 when failures ignore duration', () => {
+    const samples = [
+      { durationMs: 100, failed: true },
+      { durationMs: 300, failed: true },
+      { durationMs: 100, failed: false },
+      { durationMs: 300, failed: false },
+    ];
+    assertClose(durationCorrelation(samples) ?? 1, 0);
+  });
+
+  await t.test('is undefined without variation', () => {
+    assert.strictEqual(durationCorrelation([{ durationMs: 100, failed: false }, { durationMs: 200, failed: false }]), undefined);
+    assert.strictEqual(durationCorrelation([{ durationMs: 100, failed: true }, { durationMs: 100, failed: false }]), undefined);
+  });
+});
+
+test('timing - durationSamples', async (t) => {
+  await t.test('uses run durations for the suite, skipping timed-out runs', () => {
+    const runs = [
+      createRun(true, { durationMs: 100 }),
+      createRun(false, { durationMs: 900 }),
+      createRun(false, { durationMs: 5000, timedOut: true }),
+    ];
+
+    assert.deepStrictEqual(durationSamples(runs, 'Test Suite'), [
+      { durationMs: 100, failed: false },
+      { durationMs: 900, failed: true },
+    ]);
+  });
+
+  await t.test('prefers test durations reported by the parser', () => {
+    const runs: TestRunResult[] = [
+      createRun(true, { durationMs: 1000, tests: [{ name: 'a', status: 'passed', durationMs: 20 }, { name: 'b', status: 'passed' }] }),
+      createRun(false, { durationMs: 1200, tests: [{ name: 'a', status: 'failed', durationMs: 400 }, { name: 'b', status: 'skipped' }] }),
+    ];
+
+    assert.deepStrictEqual(durationSamples(runs, 'a'), [
+      { durationMs: 20, failed: false },
+      { durationMs: 400, failed: true },
+    ]);
+    assert.deepStrictEqual(durationSamples(runs, 'b'), [{ durationMs: 1000, failed: false }]);
+  });
+});
+
+// ============================================================================
+// Detector Integration
+// ============================================================================
+
+test('timing - flaky tests whose failures are slow are flagged', () => {
+  const slow = calculateFlakyTests(timedRuns([[true, 100], [false, 2000], [true, 110], [false, 1900], [true, 90], [false, 2100]]), 0);
+  const unrelated = calculateFlakyTests(timedRuns([[false, 100], [true, 100], [false, 200], [true, 200]]), 0);
+
+  assert.strictEqual(slow[0]?.slowFailures, true);
+  assert((slow[0]?.durationCorrelation ?? 0) > 0.9);
+  assert.strictEqual(unrelated[0]?.slowFailures, undefined);
+  assertClose(unrelated[0]?.durationCorrelation ?? 1, 0);
+});
+
+test('timing - small or noisy samples are not flagged as slow failures', () => {
+  // Strongly correlated, but the failing runs are only a few milliseconds slower
+  const noisy = calculateFlakyTests(timedRuns([[true, 6], [true, 7], [true, 6], [false, 12], [false, 11], [false, 12]]), 0);
+  // A single slow failure is not enough to go on
+  const single = calculateFlakyTests(timedRuns([[true, 100], [true, 110], [false, 2000], [true, 90]]), 0);
+
+  assert((noisy[0]?.durationCorrelation ?? 0) > 0.9);
+  assert.strictEqual(noisy[0]?.slowFailures, undefined);
+  assert((single[0]?.durationCorrelation ?? 0) > 0.9);
+  assert.strictEqual(single[0]?.slowFailures, undefined);
+});
+
+test('timing - detectFlakiness() records run timing', async () => {
+  const before = Date.now();
+  const report = await detectFlakiness({ testCommand: 'sleep 0.05', runs: 3 });
+  const after = Date.now();
+
+  for (const run of report.runs) {
+    assert(run.startedAt !== undefined && run.endedAt !== undefined && run.durationMs !== undefined);
+    assert(run.startedAt >= before && run.endedAt <= after);
+    assert.strictEqual(run.durationMs, run.endedAt - run.startedAt);
+    assert(run.durationMs >= 40);
+  }
+
+  assert(report.durationStats);
+  assert(report.durationStats.min >= 40);
+  assert(report.durationStats.min <= report.durationStats.median);
+  assert(report.durationStats.p95 <= report.durationStats.max);
+});
+
+test('timing - detectFlakiness() flags failures in slow runs', async () => {
+  const counterFile = `/tmp/timing-counter-${Date.now()}-${Math.random()}.txt`;
+  // Every third run is slow and fails
+  const report = await detectFlakiness({
+    testCommand: `bash -c 'COUNT=$(( $(cat ${counterFile} 2>/dev/null || echo 0) + 1 )); echo $COUNT > ${counterFile}; if [ $((COUNT % 3)) -eq 0 ]; then sleep 0.3; exit 1; fi'`,
+    runs: 9,
+  });
+
+  assert.strictEqual(report.flakyTests.length, 1);
+  assert.strictEqual(report.flakyTests[0]?.slowFailures, true);
+});